@@ -0,0 +1,24 @@
+// Copies the MediaPipe Tasks wasm runtime into public/ so pose estimation works without a CDN.
+import { cpSync, existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const from = join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm");
+const to = join(root, "public", "mediapipe", "wasm");
+
+if (!existsSync(from)) {
+  console.warn(`[mediapipe] ${from} not found, skipping wasm copy`);
+  process.exit(0);
+}
+
+mkdirSync(to, { recursive: true });
+cpSync(from, to, { recursive: true });
+console.log(`[mediapipe] copied wasm runtime to ${to}`);
+
+const models = join(root, "public", "models");
+for (const model of ["pose_landmarker_full.task", "pose_landmarker_heavy.task"]) {
+  if (!existsSync(join(models, model))) {
+    console.warn(`[mediapipe] public/models/${model} is missing, see README.md`);
+  }
+}
@@ -0,0 +1,153 @@
+// Pretends to be the wearable band over a WebSocket so the haptic transport can be tested without
+// hardware: `npm run wearable:loopback`, then pick "Loopback" on the monitor page.
+// Speaks protocol v1 as documented in src/lib/haptics/protocol.ts; the frame codec is repeated
+// here so the script runs on plain Node without a TypeScript build.
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.LOOPBACK_PORT || 8787);
+const MOTORS = 4;
+const VERSION = 1;
+const MAGIC = 0xa5;
+const OP = {
+  SET_MOTOR: 0x01,
+  PLAY_PATTERN: 0x02,
+  STOP_ALL: 0x03,
+  HEARTBEAT: 0x04,
+  BATTERY_QUERY: 0x05,
+  ACK: 0x80,
+  HEARTBEAT_ACK: 0x84,
+  BATTERY: 0x85,
+  ERROR: 0x8f,
+};
+const ERR = { UNKNOWN_OPCODE: 1, BAD_CHECKSUM: 2, BAD_MOTOR: 3, UNSUPPORTED_VERSION: 4 };
+const PATTERNS = ["pulse", "double", "ramp"];
+
+const xor = (bytes, from, to) => {
+  let x = 0;
+  for (let i = from; i < to; i++) x ^= bytes[i];
+  return x;
+};
+
+const encode = (opcode, seq, payload = []) => {
+  const out = Buffer.alloc(6 + payload.length);
+  out[0] = MAGIC;
+  out[1] = VERSION;
+  out[2] = opcode;
+  out[3] = seq & 0xff;
+  out[4] = payload.length;
+  Buffer.from(payload).copy(out, 5);
+  out[out.length - 1] = xor(out, 1, out.length - 1);
+  return out;
+};
+
+// --- WebSocket plumbing (RFC 6455, binary frames only) ---
+
+const accept = (key) =>
+  createHash("sha1").update(key + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11").digest("base64");
+
+const wsFrame = (payload) => {
+  const len = payload.length;
+  const head = len < 126 ? Buffer.from([0x82, len]) : Buffer.from([0x82, 126, len >> 8, len & 0xff]);
+  return Buffer.concat([head, payload]);
+};
+
+/** Splits client frames out of `buf`; returns the unconsumed tail. */
+const readWsFrames = (buf, onMessage, onClose) => {
+  let i = 0;
+  while (buf.length - i >= 2) {
+    const opcode = buf[i] & 0x0f;
+    let len = buf[i + 1] & 0x7f;
+    let at = i + 2;
+    if (len === 126) {
+      if (buf.length - at < 2) break;
+      len = buf.readUInt16BE(at);
+      at += 2;
+    } else if (len === 127) {
+      if (buf.length - at < 8) break;
+      len = Number(buf.readBigUInt64BE(at));
+      at += 8;
+    }
+    if (buf.length - at < 4 + len) break;
+    const mask = buf.subarray(at, at + 4);
+    const data = Buffer.from(buf.subarray(at + 4, at + 4 + len));
+    for (let k = 0; k < data.length; k++) data[k] ^= mask[k % 4];
+    i = at + 4 + len;
+    if (opcode === 0x8) onClose();
+    else if (opcode === 0x2) onMessage(data);
+  }
+  return buf.subarray(i);
+};
+
+// --- Band emulation ---
+
+const server = createServer((_, res) => {
+  res.writeHead(426).end("WebSocket only\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept(req.headers["sec-websocket-key"])}\r\n\r\n`
+  );
+  console.log("[loopback] host connected");
+
+  let battery = 100;
+  let ws = Buffer.alloc(0);
+  let stream = Buffer.alloc(0);
+  const reply = (opcode, seq, payload) => socket.write(wsFrame(encode(opcode, seq, payload)));
+
+  const handle = (frame) => {
+    const [, version, opcode, seq, len] = frame;
+    const p = frame.subarray(5, 5 + len);
+    if (version !== VERSION) return reply(OP.ERROR, seq, [ERR.UNSUPPORTED_VERSION, seq]);
+    switch (opcode) {
+      case OP.SET_MOTOR:
+      case OP.PLAY_PATTERN: {
+        if (p[0] >= MOTORS) return reply(OP.ERROR, seq, [ERR.BAD_MOTOR, seq]);
+        const amp = Math.round((p[1] / 255) * 100);
+        if (opcode === OP.SET_MOTOR) console.log(`[loopback] motor ${p[0]} → ${amp}%`);
+        else console.log(`[loopback] motor ${p[0]} ${PATTERNS[p[4]] ?? p[4]} ${amp}% for ${p[2] | (p[3] << 8)}ms`);
+        battery = Math.max(0, battery - 0.05);
+        return reply(OP.ACK, seq, [seq]);
+      }
+      case OP.STOP_ALL:
+        console.log("[loopback] stop all");
+        return reply(OP.ACK, seq, [seq]);
+      case OP.HEARTBEAT:
+        return reply(OP.HEARTBEAT_ACK, seq, [VERSION]);
+      case OP.BATTERY_QUERY:
+        return reply(OP.BATTERY, seq, [Math.round(battery)]);
+      default:
+        return reply(OP.ERROR, seq, [ERR.UNKNOWN_OPCODE, seq]);
+    }
+  };
+
+  const onBytes = (bytes) => {
+    stream = Buffer.concat([stream, bytes]);
+    let i = 0;
+    while (i < stream.length) {
+      if (stream[i] !== MAGIC) { i++; continue; }
+      if (stream.length - i < 5) break;
+      const end = i + 6 + stream[i + 4];
+      if (end > stream.length) break;
+      const frame = stream.subarray(i, end);
+      if (xor(frame, 1, frame.length - 1) !== frame[frame.length - 1]) {
+        reply(OP.ERROR, frame[3], [ERR.BAD_CHECKSUM, frame[3]]);
+        i++;
+        continue;
+      }
+      handle(frame);
+      i = end;
+    }
+    stream = stream.subarray(i);
+  };
+
+  socket.on("data", (chunk) => {
+    ws = readWsFrames(Buffer.concat([ws, chunk]), onBytes, () => socket.end());
+  });
+  socket.on("close", () => console.log("[loopback] host disconnected"));
+  socket.on("error", () => {});
+});
+
+server.listen(PORT, () => console.log(`[loopback] wearable stand-in on ws://localhost:${PORT}`));
@@ -0,0 +1,249 @@
+"use client";
+
+import { Lexend } from "next/font/google";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import SessionPlayer from "../../components/SessionPlayer";
+import { getExercise } from "../../../lib/exercises";
+import {
+  agreement,
+  emptyLabels,
+  MATCH_WINDOW_MS,
+  summarizeAgreement,
+  type SessionLabels,
+} from "../../../lib/history/annotations";
+import { labelMarkers, replayMarkers } from "../../../lib/history/replay";
+import type { LandmarkFrame, SessionRecord } from "../../../lib/history/sessionRecord";
+import { getLabels, getLandmarks, getSession, historySupported, listVideos, saveLabels } from "../../../lib/history/sessionStore";
+import type { VideoClip } from "../../../lib/history/videoRecorder";
+import { JOINT_ARCS, type JointKey } from "../../../lib/pose/jointReadout";
+import { NO_PHASE } from "../../../lib/pose/sessionTracker";
+
+const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
+
+const formatMs = (ms: number | null) => (ms === null ? "—" : `${Math.round(ms)} ms`);
+const formatPct = (r: number | null) => (r === null ? "—" : `${Math.round(r * 100)}%`);
+
+/** Drops the label of any kind closest to `t`, if one is within the match window. */
+const removeNearest = (labels: SessionLabels, t: number): SessionLabels => {
+  const candidates = [
+    ...labels.reps.flatMap((r, i) => [r.startedAt, r.endedAt].map((at) => ({ at, drop: () => ({ reps: labels.reps.filter((_, j) => j !== i) }) }))),
+    ...(labels.openRepAt !== null ? [{ at: labels.openRepAt, drop: () => ({ openRepAt: null }) }] : []),
+    ...labels.phases.map((p, i) => ({ at: p.at, drop: () => ({ phases: labels.phases.filter((_, j) => j !== i) }) })),
+    ...labels.violations.map((v, i) => ({ at: v.at, drop: () => ({ violations: labels.violations.filter((_, j) => j !== i) }) })),
+  ];
+  const nearest = candidates.reduce<(typeof candidates)[number] | null>(
+    (best, c) => (Math.abs(c.at - t) <= MATCH_WINDOW_MS && (!best || Math.abs(c.at - t) < Math.abs(best.at - t)) ? c : best),
+    null
+  );
+  return nearest ? { ...labels, ...nearest.drop() } : labels;
+};
+
+const Shortcut = ({ keys, children }: { keys: string; children: React.ReactNode }) => (
+  <li className="flex items-center gap-2">
+    <kbd className="min-w-8 rounded-md bg-zinc-200 px-1.5 py-0.5 text-center text-xs font-semibold text-zinc-800">{keys}</kbd>
+    <span>{children}</span>
+  </li>
+);
+
+const Metric = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded-xl bg-zinc-50 p-3 ring-1 ring-black/5">
+    <p className="text-xs text-zinc-500">{label}</p>
+    <p className="text-lg font-bold tabular-nums text-zinc-900">{value}</p>
+  </div>
+);
+
+export default function AnnotatePage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [record, setRecord] = useState<SessionRecord | null>(null);
+  const [clips, setClips] = useState<VideoClip[] | null>(null);
+  const [frames, setFrames] = useState<LandmarkFrame[]>([]);
+  const [labels, setLabels] = useState<SessionLabels | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState(false);
+  const [time, setTime] = useState(0);
+  const [joint, setJoint] = useState<JointKey>(JOINT_ARCS[0].key);
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    if (!historySupported()) {
+      setError("This browser cannot store session history.");
+      return;
+    }
+    let cancelled = false;
+    Promise.all([getSession(sessionId), listVideos(sessionId), getLabels(sessionId), getLandmarks(sessionId)])
+      .then(([r, list, stored, landmarks]) => {
+        if (cancelled) return;
+        if (!r) setError("Session not found.");
+        else if (list.length === 0) setError("No video was recorded for this session, so it cannot be annotated.");
+        else {
+          setRecord(r);
+          setClips(list);
+          setFrames(landmarks);
+          setLabels(stored ?? emptyLabels(sessionId));
+        }
+      })
+      .catch((e) => {
+        console.error("Loading annotations failed:", e);
+        if (!cancelled) setError("Could not load this session.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Every edit is written straight away; the first run is the load itself.
+  useEffect(() => {
+    if (!labels) return;
+    if (!loadedRef.current) {
+      loadedRef.current = true;
+      return;
+    }
+    saveLabels(labels)
+      .then(() => setSaveError(false))
+      .catch((e) => {
+        console.error("Saving labels failed:", e);
+        setSaveError(true);
+      });
+  }, [labels]);
+
+  const phaseNames = useMemo(() => {
+    if (!record) return [];
+    const defined = getExercise(record.exerciseId)?.phases.map((p) => p.name);
+    return defined ?? [...new Set(record.samples.map((s) => s.phase))].filter((p) => p !== NO_PHASE);
+  }, [record]);
+
+  const markers = useMemo(
+    () => (record && labels ? [...replayMarkers(record), ...labelMarkers(labels)].sort((a, b) => a.at - b.at) : []),
+    [record, labels]
+  );
+
+  const metrics = useMemo(() => (record && labels ? agreement(record, labels) : null), [record, labels]);
+  const summary = metrics ? summarizeAgreement(metrics) : null;
+
+  const edit = (change: (l: SessionLabels) => SessionLabels) =>
+    setLabels((prev) => (prev ? { ...change(prev), updatedAt: Date.now() } : prev));
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    const key = e.key.toLowerCase();
+    const phase = /^[1-9]$/.test(key) ? phaseNames[Number(key) - 1] : undefined;
+    if (key === "s") edit((l) => ({ ...l, openRepAt: time }));
+    else if (key === "e") {
+      edit((l) =>
+        l.openRepAt !== null && time > l.openRepAt
+          ? {
+              ...l,
+              reps: [...l.reps, { startedAt: l.openRepAt, endedAt: time }].sort((a, b) => a.startedAt - b.startedAt),
+              openRepAt: null,
+            }
+          : l
+      );
+    } else if (phase) edit((l) => ({ ...l, phases: [...l.phases, { at: time, phase }].sort((a, b) => a.at - b.at) }));
+    else if (key === "v") edit((l) => ({ ...l, violations: [...l.violations, { at: time, joint }].sort((a, b) => a.at - b.at) }));
+    else if (key === "j") setJoint((j) => JOINT_ARCS[(JOINT_ARCS.findIndex((a) => a.key === j) + 1) % JOINT_ARCS.length].key);
+    else if (key === "backspace" || key === "delete") edit((l) => removeNearest(l, time));
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <main className={`${lexend.variable} font-sans min-h-screen bg-zinc-100 p-4 sm:p-6`}>
+      <div className="mx-auto max-w-6xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-extrabold text-zinc-900">Annotate Session</h1>
+            {record && (
+              <p className="mt-1 text-sm text-zinc-500">
+                {record.exerciseTitle} · {new Date(record.startedAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Link href={`/summary/${sessionId}`} className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300">
+              Summary
+            </Link>
+            <Link href="/history" className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300">
+              History
+            </Link>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="py-16 text-center text-red-600">{error}</p>
+        ) : !record || !clips || !labels ? (
+          <p className="py-16 text-center text-zinc-500">Loading…</p>
+        ) : (
+          <div className="grid gap-6 outline-none" tabIndex={-1} onKeyDown={onKeyDown}>
+            <SessionPlayer
+              clips={clips}
+              samples={record.samples}
+              frames={frames}
+              thresholds={record.thresholds}
+              markers={markers}
+              onTimeChange={setTime}
+            />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <section>
+                <h2 className="mb-3 text-lg font-bold text-zinc-900">Shortcuts</h2>
+                <ul className="grid gap-1.5 text-sm text-zinc-700">
+                  <Shortcut keys="S">Rep starts here{labels.openRepAt !== null && " (a start is already open; this moves it)"}</Shortcut>
+                  <Shortcut keys="E">Rep ends here</Shortcut>
+                  {phaseNames.slice(0, 9).map((name, i) => (
+                    <Shortcut key={name} keys={String(i + 1)}>Enters {name}</Shortcut>
+                  ))}
+                  <Shortcut keys="V">Form violation of the selected joint</Shortcut>
+                  <Shortcut keys="J">Next joint</Shortcut>
+                  <Shortcut keys="⌫">Remove the nearest label</Shortcut>
+                </ul>
+                <label className="mt-3 flex items-center gap-2 text-sm text-zinc-600">
+                  Joint
+                  <select
+                    className="rounded-md border border-zinc-300 bg-white px-2 py-1.5 text-sm text-black"
+                    value={joint}
+                    onChange={(e) => setJoint(e.target.value as JointKey)}
+                  >
+                    {JOINT_ARCS.map((j) => (
+                      <option key={j.key} value={j.key}>{j.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <p className="mt-3 text-xs text-zinc-500">
+                  Blue ticks are your rep boundaries, purple your phase boundaries, red your violations; grey ticks
+                  and dots are what the tracker detected. Labels are saved as you go.
+                </p>
+                {saveError && <p className="mt-2 text-sm text-red-600">Could not save the labels.</p>}
+              </section>
+
+              {metrics && summary && (
+                <section>
+                  <h2 className="mb-3 text-lg font-bold text-zinc-900">Agreement</h2>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    <Metric label="Reps (labelled / detected)" value={`${metrics.labelledReps} / ${metrics.detectedReps}`} />
+                    <Metric label="Rep count error" value={`${metrics.repCountError > 0 ? "+" : ""}${metrics.repCountError}`} />
+                    <Metric label="Phase boundaries found" value={`${metrics.phaseOffsetsMs.length} / ${metrics.phaseBoundaries}`} />
+                    <Metric label="Mean |phase offset|" value={formatMs(summary.meanAbsPhaseOffsetMs)} />
+                    <Metric label="Violation precision" value={formatPct(summary.precision)} />
+                    <Metric label="Violation recall" value={formatPct(summary.recall)} />
+                  </div>
+                  <p className="mt-3 text-xs text-zinc-500">
+                    A detection counts when it is within {MATCH_WINDOW_MS / 1000} s of a label of the same phase or
+                    joint. Offsets are detected minus labelled.
+                  </p>
+                </section>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <style jsx global>{`
+        :root { --font-lexend: ${lexend.style.fontFamily}; }
+        .font-sans { font-family: var(--font-lexend), ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Noto Sans, Ubuntu, Cantarell, Helvetica Neue, Arial, "Apple Color Emoji", "Segoe UI Emoji"; }
+      `}</style>
+    </main>
+  );
+}
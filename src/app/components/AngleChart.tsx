@@ -0,0 +1,309 @@
+"use client";
+
+import React, { useEffect, useId, useRef, useState } from "react";
+import type { ExerciseDefinition, Joint } from "../../lib/exercises";
+import { INTENT_COLOR } from "../../lib/feedbackConfig";
+import type { AngleSample, SessionTrace } from "../../lib/history/sessionRecord";
+import { JOINT_ARCS, type JointKey } from "../../lib/pose/jointReadout";
+import { NO_PHASE } from "../../lib/pose/sessionTracker";
+
+const WIDTH = 800;
+const PANEL_HEIGHT = 170;
+const PAD = { left: 34, right: 8, top: 16, bottom: 20 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = PANEL_HEIGHT - PAD.top - PAD.bottom;
+const MAX_DEG = 180;
+const DEG_TICKS = [0, 45, 90, 135, 180];
+const TICK_STEPS_S = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+const LIVE_SPAN_MS = 20_000;
+const LIVE_REFRESH_MS = 250;
+const MIN_SPAN_MS = 1_000;
+const ZOOM_STEP = 1.25;
+/** Lines are thinned to about this many points per panel when zoomed out. */
+const MAX_POINTS = 800;
+
+const PHASE_FILLS = ["#E0E7FF", "#DCFCE7", "#FEF3C7", "#FCE7F3", "#E0F2FE", "#F3E8FF"];
+const SIDE_STROKE = { left: "#4F46E5", right: "#F97316" };
+const THRESHOLD_STROKE = "#DC2626";
+const PANELS: Joint[] = ["shoulder", "elbow"];
+
+type Domain = { from: number; to: number };
+
+const JOINT_OF = Object.fromEntries(JOINT_ARCS.map((a) => [a.key, a.joint])) as Record<JointKey, Joint>;
+
+/** Index of the first sample at or after `t`. */
+const lowerBound = (samples: AngleSample[], t: number) => {
+  let lo = 0;
+  let hi = samples.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].t < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/** Samples inside the domain plus one either side, so lines and bands reach the edges. */
+const visibleSamples = (samples: AngleSample[], { from, to }: Domain) =>
+  samples.slice(Math.max(0, lowerBound(samples, from) - 1), lowerBound(samples, to) + 1);
+
+const phaseRuns = (samples: AngleSample[]) => {
+  const runs: { phase: string; from: number; to: number }[] = [];
+  for (const s of samples) {
+    const last = runs[runs.length - 1];
+    if (last) last.to = s.t;
+    if (last?.phase !== s.phase) runs.push({ phase: s.phase, from: s.t, to: s.t });
+  }
+  return runs.filter((r) => r.phase !== NO_PHASE);
+};
+
+const tickStepMs = (span: number) => (TICK_STEPS_S.find((s) => span / (s * 1000) <= 8) ?? 1200) * 1000;
+
+const clockLabel = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Shoulder and elbow angle traces over time, on top of bands for the detected phases, with the
+ * exercise thresholds, counted reps and delivered cues marked. Scroll to zoom and drag to pan.
+ * With `live`, the trace's arrays may grow in place and the chart follows the latest samples.
+ */
+export default function AngleChart({
+  trace,
+  exercise,
+  live = false,
+}: {
+  trace: SessionTrace;
+  exercise: ExerciseDefinition | undefined;
+  live?: boolean;
+}) {
+  // useId output is not safe inside url(#…).
+  const id = useId().replace(/[^\w-]/g, "");
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<Domain | null>(null);
+  const [, setTick] = useState(0);
+  const dragRef = useRef<{ x: number; domain: Domain } | null>(null);
+
+  useEffect(() => {
+    if (!live) return;
+    const timer = setInterval(() => setTick((n) => n + 1), LIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [live]);
+
+  const { samples, startedAt } = trace;
+  const lastT = samples.length ? samples[samples.length - 1].t : startedAt;
+  const auto: Domain = live
+    ? { from: Math.max(lastT, startedAt + LIVE_SPAN_MS) - LIVE_SPAN_MS, to: Math.max(lastT, startedAt + LIVE_SPAN_MS) }
+    : { from: startedAt, to: Math.max(lastT, startedAt + MIN_SPAN_MS) };
+  const domain = view ?? auto;
+  const domainRef = useRef(domain);
+  domainRef.current = domain;
+
+  const span = domain.to - domain.from;
+  const x = (t: number) => PAD.left + ((t - domain.from) / span) * PLOT_W;
+  const y = (deg: number) => PAD.top + (1 - deg / MAX_DEG) * PLOT_H;
+
+  /** Chart time under a client x coordinate; the SVG scales with its width. */
+  const timeAt = (clientX: number, d: Domain) => {
+    const rect = boxRef.current!.getBoundingClientRect();
+    const vx = ((clientX - rect.left) / rect.width) * WIDTH;
+    return d.from + ((vx - PAD.left) / PLOT_W) * (d.to - d.from);
+  };
+
+  const zoom = (factor: number, at?: number) => {
+    const d = domainRef.current;
+    const center = at ?? (d.from + d.to) / 2;
+    const next = Math.max(MIN_SPAN_MS, (d.to - d.from) * factor);
+    const ratio = (center - d.from) / (d.to - d.from);
+    setView({ from: center - ratio * next, to: center - ratio * next + next });
+  };
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  // React registers wheel listeners as passive, which would let the page scroll while zooming.
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomRef.current(e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, timeAt(e.clientX, domainRef.current));
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, domain: domainRef.current };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const shift = timeAt(drag.x, drag.domain) - timeAt(e.clientX, drag.domain);
+    if (shift !== 0) setView({ from: drag.domain.from + shift, to: drag.domain.to + shift });
+  };
+  const onPointerUp = (e: React.PointerEvent) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const shown = visibleSamples(samples, domain);
+  const stride = Math.max(1, Math.ceil(shown.length / MAX_POINTS));
+  const thinned = shown.filter((_, i) => i % stride === 0 || i === shown.length - 1);
+  const runs = phaseRuns(shown);
+  const phaseFill = (name: string) => {
+    const index = exercise?.phases.findIndex((p) => p.name === name) ?? -1;
+    return index < 0 ? "#F4F4F5" : PHASE_FILLS[index % PHASE_FILLS.length];
+  };
+  const inDomain = (t: number) => t >= domain.from && t <= domain.to;
+  const step = tickStepMs(span);
+  const timeTicks: number[] = [];
+  for (let t = Math.ceil((domain.from - startedAt) / step) * step; t <= domain.to - startedAt; t += step) timeTicks.push(t);
+
+  const linePath = (key: JointKey) => {
+    let d = "";
+    let pen = false;
+    for (const s of thinned) {
+      const a = s.angles[key];
+      if (a === undefined) {
+        pen = false;
+        continue;
+      }
+      d += `${pen ? "L" : "M"}${x(s.t).toFixed(1)},${y(a).toFixed(1)}`;
+      pen = true;
+    }
+    return d;
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-zinc-600">
+        {exercise?.phases.map((p) => (
+          <span key={p.name} className="flex items-center gap-1.5">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: phaseFill(p.name) }} />
+            {p.name}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="h-0.5 w-4 border-t-2 border-dashed" style={{ borderColor: THRESHOLD_STROKE }} />
+          Threshold
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-3 w-0.5 bg-zinc-500" />
+          Rep
+        </span>
+        {Object.entries(INTENT_COLOR).map(([intent, color]) => (
+          <span key={intent} className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+            {intent}
+          </span>
+        ))}
+      </div>
+
+      <div
+        ref={boxRef}
+        className="cursor-grab touch-none select-none active:cursor-grabbing"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        {PANELS.map((joint) => {
+          const band = trace.thresholds[joint];
+          const clip = `${id}-${joint}`;
+          return (
+            <svg key={joint} viewBox={`0 0 ${WIDTH} ${PANEL_HEIGHT}`} className="block h-auto w-full" aria-label={`${joint} angle`}>
+              <defs>
+                <clipPath id={clip}>
+                  <rect x={PAD.left} y={PAD.top} width={PLOT_W} height={PLOT_H} />
+                </clipPath>
+              </defs>
+              <text x={PAD.left} y={11} fontSize={11} fontWeight={600} fill="#3F3F46">
+                {joint === "shoulder" ? "Shoulder" : "Elbow"}
+              </text>
+              {JOINT_ARCS.filter((a) => a.joint === joint).map((a, i) => (
+                <text key={a.key} x={PAD.left + 70 + i * 70} y={11} fontSize={10} fill={SIDE_STROKE[a.side]}>
+                  ― {a.label}
+                </text>
+              ))}
+
+              {DEG_TICKS.map((deg) => (
+                <g key={deg}>
+                  <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(deg)} y2={y(deg)} stroke="#E4E4E7" />
+                  <text x={PAD.left - 4} y={y(deg) + 3} fontSize={9} textAnchor="end" fill="#71717A">
+                    {deg}°
+                  </text>
+                </g>
+              ))}
+              {timeTicks.map((t) => (
+                <text key={t} x={x(startedAt + t)} y={PANEL_HEIGHT - 6} fontSize={9} textAnchor="middle" fill="#71717A">
+                  {clockLabel(t)}
+                </text>
+              ))}
+
+              <g clipPath={`url(#${clip})`}>
+                {runs.map((r) => (
+                  <rect
+                    key={`${r.phase}-${r.from}`}
+                    x={x(r.from)}
+                    y={PAD.top}
+                    width={Math.max(0, x(r.to) - x(r.from))}
+                    height={PLOT_H}
+                    fill={phaseFill(r.phase)}
+                  />
+                ))}
+                {band &&
+                  [band.min, band.max].map((deg) => (
+                    <line
+                      key={deg}
+                      x1={PAD.left}
+                      x2={WIDTH - PAD.right}
+                      y1={y(deg)}
+                      y2={y(deg)}
+                      stroke={THRESHOLD_STROKE}
+                      strokeDasharray="5 4"
+                    />
+                  ))}
+                {trace.reps.filter((r) => inDomain(r.endedAt)).map((r) => (
+                  <g key={r.index}>
+                    <line x1={x(r.endedAt)} x2={x(r.endedAt)} y1={PAD.top} y2={PAD.top + PLOT_H} stroke="#71717A" />
+                    <text x={x(r.endedAt) + 3} y={PAD.top + 10} fontSize={9} fill="#52525B">
+                      R{r.index}
+                    </text>
+                  </g>
+                ))}
+                {JOINT_ARCS.filter((a) => a.joint === joint).map((a) => (
+                  <path key={a.key} d={linePath(a.key)} fill="none" stroke={SIDE_STROKE[a.side]} strokeWidth={1.5} />
+                ))}
+                {trace.cues
+                  .filter((c) => JOINT_OF[c.joint] === joint && inDomain(c.at))
+                  .map((c, i) => (
+                    <circle key={i} cx={x(c.at)} cy={PAD.top + PLOT_H - 5} r={3.5} fill={INTENT_COLOR[c.intent]} />
+                  ))}
+              </g>
+            </svg>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button type="button" onClick={() => zoom(1 / ZOOM_STEP)} className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300">
+          Zoom In
+        </button>
+        <button type="button" onClick={() => zoom(ZOOM_STEP)} className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300">
+          Zoom Out
+        </button>
+        <button
+          type="button"
+          onClick={() => setView(null)}
+          disabled={!view}
+          className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300 disabled:opacity-60"
+        >
+          {live ? "Follow Live" : "Show All"}
+        </button>
+      </div>
+    </div>
+  );
+}
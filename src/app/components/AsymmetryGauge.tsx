@@ -0,0 +1,80 @@
+"use client";
+
+import React from "react";
+import { LAG_MS_PER_DEG, type AsymmetryReading } from "../../lib/asymmetry";
+import { MAX_THRESHOLD_DEG } from "../../lib/feedbackConfig";
+import type { Side } from "../../lib/signals";
+
+/** Landmarks are mirrored for the selfie view, so the left-labelled side is the user's right arm. */
+const ARM_LABEL: Record<Side, string> = { left: "R arm", right: "L arm" };
+
+function Bar({
+  label,
+  value,
+  text,
+  threshold,
+}: {
+  label: string;
+  /** Degrees, or degrees-equivalent for the lag. */
+  value: number | null;
+  text: string;
+  threshold: number | null;
+}) {
+  const pct = value === null ? 0 : Math.min(100, (value / MAX_THRESHOLD_DEG) * 100);
+  const over = value !== null && threshold !== null && value > threshold;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span className="font-semibold text-gray-800">{text}</span>
+      </div>
+      <div className="relative mt-1 h-2 w-full rounded-full bg-zinc-200">
+        <div
+          className={`h-2 rounded-full transition-[width] duration-200 ${over ? "bg-red-500" : "bg-green-500"}`}
+          style={{ width: `${pct}%` }}
+        />
+        {threshold !== null && (
+          <div
+            className="absolute -top-1 h-4 w-0.5 bg-gray-800"
+            style={{ left: `${Math.min(100, (threshold / MAX_THRESHOLD_DEG) * 100)}%` }}
+            aria-hidden
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Live and last-rep left/right imbalance; the tick marks the asymmetry threshold when one is set. */
+export default function AsymmetryGauge({
+  reading,
+  threshold,
+}: {
+  reading: AsymmetryReading;
+  threshold: number | null;
+}) {
+  const rep = reading.lastRep;
+  return (
+    <div className="mt-2 grid gap-2">
+      <Bar
+        label={`Angle difference${reading.behind ? ` (${ARM_LABEL[reading.behind]} behind)` : ""}`}
+        value={reading.angleDiff}
+        text={reading.angleDiff === null ? "—" : `${Math.round(reading.angleDiff)}°`}
+        threshold={threshold}
+      />
+      <Bar
+        label="Peak lag (last rep)"
+        value={rep ? rep.lagMs / LAG_MS_PER_DEG : null}
+        text={rep ? `${Math.round(rep.lagMs)} ms` : "—"}
+        threshold={threshold}
+      />
+      <Bar
+        label="ROM difference (last rep)"
+        value={rep ? rep.romDiff : null}
+        text={rep ? `${Math.round(rep.romDiff)}°` : "—"}
+        threshold={threshold}
+      />
+      {rep && <p className="text-xs text-gray-500">Last rep: {ARM_LABEL[rep.behind]} behind</p>}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { speechSupported, type AudioPlayer, type AudioSettings } from "../../lib/audio/audioPlayer";
+
+/** Volume, language, voice and rate for the audio cues, with a test button. */
+export default function AudioSettingsPanel({
+  settings,
+  onChange,
+  player,
+}: {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  player: AudioPlayer | null;
+}) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Voices load asynchronously in most browsers.
+  useEffect(() => {
+    if (!speechSupported()) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener("voiceschanged", load);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", load);
+  }, []);
+
+  const langs = useMemo(() => {
+    const set = new Set(voices.map((v) => v.lang));
+    set.add(settings.lang);
+    return [...set].sort();
+  }, [voices, settings.lang]);
+  const langVoices = voices.filter((v) => v.lang === settings.lang);
+
+  const test = () =>
+    player?.enqueue({
+      key: "test",
+      cues: [
+        { kind: "earcon", intent: "Correction" },
+        { kind: "speech", text: "Raise your right arm" },
+      ],
+    });
+
+  return (
+    <div className="mt-2 grid gap-2 text-xs text-gray-600">
+      <label className="grid gap-1">
+        Volume: <span className="font-semibold text-gray-800">{Math.round(settings.volume * 100)}%</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) })}
+          className="w-full accent-indigo-600"
+        />
+      </label>
+      <label className="grid gap-1">
+        Rate: <span className="font-semibold text-gray-800">{settings.rate.toFixed(1)}×</span>
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={settings.rate}
+          onChange={(e) => onChange({ ...settings, rate: Number(e.target.value) })}
+          className="w-full accent-indigo-600"
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          className="rounded-md border border-zinc-300 bg-white px-2 py-1 text-sm text-black"
+          value={settings.lang}
+          onChange={(e) => onChange({ ...settings, lang: e.target.value, voice: null })}
+          aria-label="Speech language"
+        >
+          {langs.map((l) => (
+            <option key={l} value={l}>{l}</option>
+          ))}
+        </select>
+        <select
+          className="rounded-md border border-zinc-300 bg-white px-2 py-1 text-sm text-black"
+          value={settings.voice ?? ""}
+          onChange={(e) => onChange({ ...settings, voice: e.target.value || null })}
+          aria-label="Speech voice"
+        >
+          <option value="">Default voice</option>
+          {langVoices.map((v) => (
+            <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>
+          ))}
+        </select>
+      </div>
+      <button
+        type="button"
+        onClick={test}
+        disabled={!player}
+        className="justify-self-start rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300 disabled:opacity-60"
+      >
+        Test Audio
+      </button>
+    </div>
+  );
+}
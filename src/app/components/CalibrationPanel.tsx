@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  CALIBRATION_REPS,
+  createCalibrationRecorder,
+  type Calibration,
+  type CalibrationProgress,
+} from "../../lib/calibration";
+import type { ExerciseDefinition, Joint } from "../../lib/exercises";
+import { MAX_THRESHOLD_DEG } from "../../lib/feedbackConfig";
+import type { SessionTracker } from "../../lib/pose/sessionTracker";
+
+const PROGRESS_REFRESH_MS = 250;
+
+function NumberField({
+  label,
+  value,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  onChange: (n: number) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Math.min(max, Number(e.target.value) || 0)))}
+        className="w-16 rounded-md border border-zinc-300 px-2 py-1 text-right text-sm text-black"
+      />
+    </label>
+  );
+}
+
+function Review({
+  draft,
+  onChange,
+}: {
+  draft: Calibration;
+  onChange: (c: Calibration) => void;
+}) {
+  const setRange = (joint: Joint, key: "min" | "max", v: number) =>
+    onChange({ ...draft, thresholds: { ...draft.thresholds, [joint]: { ...draft.thresholds[joint]!, [key]: v } } });
+  return (
+    <div className="grid gap-3">
+      {(Object.keys(draft.thresholds) as Joint[]).map((joint) => (
+        <div key={joint} className="grid grid-cols-2 gap-2">
+          <p className="col-span-2 text-xs font-semibold capitalize text-gray-700">{joint} range (°)</p>
+          <NumberField label="Min" value={draft.thresholds[joint]!.min} max={180} onChange={(v) => setRange(joint, "min", v)} />
+          <NumberField label="Max" value={draft.thresholds[joint]!.max} max={180} onChange={(v) => setRange(joint, "max", v)} />
+        </div>
+      ))}
+      {Object.keys(draft.limits).length > 0 && (
+        <div className="grid gap-1">
+          <p className="text-xs font-semibold text-gray-700">Excessive angle limit per phase (°)</p>
+          {Object.entries(draft.limits).map(([phase, v]) => (
+            <NumberField
+              key={phase}
+              label={phase}
+              value={v}
+              max={MAX_THRESHOLD_DEG}
+              onChange={(n) => onChange({ ...draft, limits: { ...draft.limits, [phase]: n } })}
+            />
+          ))}
+        </div>
+      )}
+      {Object.keys(draft.asymmetryLimits).length > 0 && (
+        <div className="grid gap-1">
+          <p className="text-xs font-semibold text-gray-700">Asymmetry limit per phase (°)</p>
+          {Object.entries(draft.asymmetryLimits).map(([phase, v]) => (
+            <NumberField
+              key={phase}
+              label={phase}
+              value={v}
+              max={MAX_THRESHOLD_DEG}
+              onChange={(n) => onChange({ ...draft, asymmetryLimits: { ...draft.asymmetryLimits, [phase]: n } })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Warm-up calibration: records CALIBRATION_REPS reps from the tracker, then lets the user review
+ * and adjust the derived thresholds before saving them in place of the exercise defaults.
+ */
+export default function CalibrationPanel({
+  exercise,
+  tracker,
+  calibration,
+  onSave,
+  onWarmUpEnd,
+}: {
+  exercise: ExerciseDefinition;
+  tracker: SessionTracker | null;
+  calibration: Calibration | null;
+  /** Null resets to the exercise defaults. */
+  onSave: (calibration: Calibration | null) => void;
+  /** A warm-up was cancelled, or its result saved or discarded; its reps are not part of the working set. */
+  onWarmUpEnd: () => void;
+}) {
+  const [recording, setRecording] = useState(false);
+  const [progress, setProgress] = useState<CalibrationProgress>({ reps: 0, samples: 0 });
+  const [draft, setDraft] = useState<Calibration | null>(null);
+  /** Whether the draft under review came from a warm-up rather than editing the saved calibration. */
+  const [warmedUp, setWarmedUp] = useState(false);
+
+  useEffect(() => {
+    if (!recording || !tracker) return;
+    const recorder = createCalibrationRecorder(exercise);
+    const unsubscribe = tracker.subscribe(recorder.add);
+    const id = setInterval(() => {
+      const p = recorder.progress();
+      setProgress(p);
+      if (p.reps < CALIBRATION_REPS) return;
+      setDraft(recorder.result());
+      setWarmedUp(true);
+      setRecording(false);
+    }, PROGRESS_REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(id);
+    };
+  }, [recording, tracker, exercise]);
+
+  const start = () => {
+    setDraft(null);
+    setProgress({ reps: 0, samples: 0 });
+    setRecording(true);
+  };
+
+  if (recording) {
+    return (
+      <div className="mt-2 grid gap-2">
+        <p className="text-sm text-gray-700">
+          Warm-up: rep {Math.min(progress.reps + 1, CALIBRATION_REPS)} of {CALIBRATION_REPS}
+        </p>
+        <div className="h-2 w-full rounded-full bg-zinc-200">
+          <div
+            className="h-2 rounded-full bg-indigo-600 transition-[width] duration-300"
+            style={{ width: `${(progress.reps / CALIBRATION_REPS) * 100}%` }}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setRecording(false);
+            onWarmUpEnd();
+          }}
+          className="justify-self-start rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  if (draft) {
+    const close = () => {
+      setDraft(null);
+      if (warmedUp) onWarmUpEnd();
+      setWarmedUp(false);
+    };
+    return (
+      <div className="mt-2 grid gap-3">
+        <Review draft={draft} onChange={setDraft} />
+        <p className="text-xs text-gray-500">
+          Calibration tunes the form band and feedback limits only; reps are still counted against the
+          exercise&apos;s standard phase angles.
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              onSave(draft);
+              close();
+            }}
+            className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-indigo-700"
+          >
+            Save & Start
+          </button>
+          <button
+            type="button"
+            onClick={close}
+            className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 grid gap-2">
+      <p className="text-sm text-gray-700">
+        {calibration
+          ? `Personal thresholds from ${new Date(calibration.recordedAt).toLocaleDateString()}`
+          : "Using default thresholds"}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={start}
+          disabled={!tracker}
+          className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {calibration ? "Recalibrate" : `Calibrate (${CALIBRATION_REPS} warm-up reps)`}
+        </button>
+        {calibration && (
+          <>
+            <button
+              type="button"
+              onClick={() => setDraft(calibration)}
+              className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave(null)}
+              className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+            >
+              Use Defaults
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { ExerciseDefinition } from "../../lib/exercises";
+import type { CameraId } from "../../lib/pose/cameraPipeline";
+import { drawJointArcs, drawPose } from "../../lib/pose/drawPose";
+import { JOINT_ARCS, readoutFromAngles } from "../../lib/pose/jointReadout";
+import {
+  clipAt,
+  clipsSpan,
+  frameAt,
+  frameTimes,
+  landmarkTrack,
+  stepFrame,
+  type LandmarkTrack,
+  type ReplayMarker,
+} from "../../lib/history/replay";
+import type { AngleSample, LandmarkFrame } from "../../lib/history/sessionRecord";
+import type { VideoClip } from "../../lib/history/videoRecorder";
+
+const CAMERAS: { id: CameraId; label: string }[] = [
+  { id: "front", label: "Front Camera" },
+  { id: "side", label: "Side Camera" },
+];
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+
+/** Videos further than this from the shared clock are seeked back into line. */
+const SYNC_TOLERANCE_S = 0.2;
+
+const clockLabel = (ms: number) => {
+  const s = Math.max(0, ms / 1000);
+  return `${Math.floor(s / 60)}:${(s % 60).toFixed(1).padStart(4, "0")}`;
+};
+
+function VideoPane({
+  label,
+  camera,
+  clip,
+  track,
+  thresholds,
+  time,
+  playing,
+  rate,
+}: {
+  label: string;
+  camera: CameraId;
+  clip: VideoClip | null;
+  track: LandmarkTrack;
+  thresholds: ExerciseDefinition["thresholds"];
+  time: number;
+  playing: boolean;
+  rate: number;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [aspect, setAspect] = useState(4 / 3);
+  const url = useMemo(() => (clip ? URL.createObjectURL(clip.blob) : null), [clip]);
+  const frame = frameAt(track, time);
+  // Stored angles are the fused ones, so arcs and labels read as they did live.
+  const readout = frame ? readoutFromAngles(frame.landmarks, frame.angles, thresholds, camera === "side") : null;
+
+  useEffect(() => {
+    if (!url) return;
+    return () => URL.revokeObjectURL(url);
+  }, [url]);
+
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v || !clip) return;
+    v.playbackRate = rate;
+    const target = (time - clip.startedAt) / 1000;
+    // While paused every scrub or frame step must land exactly.
+    if (Math.abs(v.currentTime - target) > (playing ? SYNC_TOLERANCE_S * Math.max(1, rate) : 0.001)) v.currentTime = target;
+    if (playing && v.paused) v.play().catch(() => {});
+    else if (!playing && !v.paused) v.pause();
+  }, [clip, time, playing, rate]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const w = canvas.clientWidth;
+    const h = canvas.clientHeight;
+    if (w && h && (canvas.width !== w || canvas.height !== h)) {
+      canvas.width = w;
+      canvas.height = h;
+    }
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!frame || !readout) return;
+    drawJointArcs(ctx, frame.landmarks, readout);
+    drawPose(ctx, frame.landmarks);
+  }, [frame, readout, aspect]);
+
+  return (
+    <div className="grid gap-1">
+      <span className="text-sm text-zinc-600">{label}</span>
+      <div className="relative w-full overflow-hidden rounded-xl bg-zinc-900" style={{ aspectRatio: aspect }}>
+        {url ? (
+          // Recordings are the raw camera image; mirror them like the live view the landmarks match.
+          <video
+            ref={videoRef}
+            src={url}
+            className="h-full w-full scale-x-[-1] object-fill"
+            muted
+            playsInline
+            preload="auto"
+            onLoadedMetadata={(e) => {
+              const v = e.currentTarget;
+              if (v.videoWidth && v.videoHeight) setAspect(v.videoWidth / v.videoHeight);
+            }}
+          />
+        ) : (
+          <div className="grid h-full w-full place-items-center text-sm text-zinc-400">No video at this moment</div>
+        )}
+        <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" />
+        {readout &&
+          JOINT_ARCS.map((j) => {
+            const r = readout[j.key];
+            if (!r.visible) return null;
+            return (
+              <div
+                key={j.key}
+                className="absolute z-10 rounded-md p-1 text-sm font-semibold"
+                style={{
+                  left: `${r.x * 100}%`,
+                  top: `${r.y * 100}%`,
+                  transform: "translate(-50%, -150%)",
+                  textShadow: "1px 1px 2px #000",
+                  color: r.correct ? "#00FF00" : "#FF0000",
+                }}
+              >
+                {j.label}: {Math.round(r.angle)}°
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Plays a session's recorded camera clips side by side against one clock, redrawing each camera's
+ * stored skeleton, joint arcs and angles over its video. Space plays and pauses; the arrow keys
+ * step one analysed frame. Other keys bubble up, with the player's time reported through
+ * `onTimeChange`, so a page can add its own shortcuts.
+ */
+export default function SessionPlayer({
+  clips,
+  samples,
+  frames,
+  thresholds,
+  markers = [],
+  onTimeChange,
+}: {
+  clips: VideoClip[];
+  samples: AngleSample[];
+  frames: LandmarkFrame[];
+  thresholds: ExerciseDefinition["thresholds"];
+  markers?: ReplayMarker[];
+  onTimeChange?: (t: number) => void;
+}) {
+  const span = useMemo(() => clipsSpan(clips), [clips]);
+  const tracks = useMemo(
+    () => Object.fromEntries(CAMERAS.map(({ id }) => [id, landmarkTrack(samples, frames, id)])) as Record<CameraId, LandmarkTrack>,
+    [samples, frames]
+  );
+  const times = useMemo(() => frameTimes(Object.values(tracks)), [tracks]);
+  const [time, setTime] = useState(span.from);
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    onTimeChange?.(time);
+  }, [time, onTimeChange]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(span.to, timeRef.current + (now - last) * rate);
+      last = now;
+      setTime(next);
+      if (next >= span.to) setPlaying(false);
+      else raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, span, rate]);
+
+  const seek = (t: number) => setTime(Math.min(span.to, Math.max(span.from, t)));
+
+  const togglePlay = () => {
+    if (!playing && time >= span.to) setTime(span.from);
+    setPlaying(!playing);
+  };
+
+  const step = (dir: 1 | -1) => {
+    setPlaying(false);
+    const next = stepFrame(times, time, dir);
+    if (next !== undefined) seek(next);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    // A focused button already clicks on space.
+    if (e.key === " " && e.target instanceof HTMLButtonElement) return;
+    if (e.key === " ") togglePlay();
+    else if (e.key === "ArrowRight") step(1);
+    else if (e.key === "ArrowLeft") step(-1);
+    else return;
+    e.preventDefault();
+  };
+
+  const pct = (t: number) => ((t - span.from) / Math.max(1, span.to - span.from)) * 100;
+  const shownMarkers = markers.filter((m) => m.at >= span.from && m.at <= span.to);
+
+  return (
+    <div className="grid gap-3 outline-none" tabIndex={0} onKeyDown={onKeyDown}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {CAMERAS.map(({ id, label }) => (
+          <VideoPane
+            key={id}
+            label={label}
+            camera={id}
+            clip={clipAt(clips, id, time)}
+            track={tracks[id]}
+            thresholds={thresholds}
+            time={time}
+            playing={playing}
+            rate={rate}
+          />
+        ))}
+      </div>
+
+      <div className="relative h-4">
+        {shownMarkers.map((m, i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => {
+              setPlaying(false);
+              seek(m.at);
+            }}
+            className={`absolute top-0 -translate-x-1/2 ${m.kind === "cue" ? "h-2.5 w-2.5 rounded-full" : "h-4 w-0.5"}`}
+            style={{ left: `${pct(m.at)}%`, backgroundColor: m.color }}
+            title={`${clockLabel(m.at - span.from)} ${m.label}`}
+            aria-label={m.label}
+          />
+        ))}
+      </div>
+      <input
+        type="range"
+        min={span.from}
+        max={span.to}
+        step={1}
+        value={time}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="-mt-2 w-full accent-indigo-600"
+        aria-label="Playback position"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => step(-1)}
+          className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+          aria-label="Previous frame"
+        >
+          ◀︎ Frame
+        </button>
+        <button
+          type="button"
+          onClick={togglePlay}
+          className="rounded-lg bg-indigo-600 px-4 py-1.5 text-sm text-white hover:bg-indigo-700"
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button
+          type="button"
+          onClick={() => step(1)}
+          className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+          aria-label="Next frame"
+        >
+          Frame ▶︎
+        </button>
+        <select
+          className="rounded-md border border-zinc-300 bg-white px-2 py-1.5 text-sm text-black"
+          value={rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_RATES.map((r) => (
+            <option key={r} value={r}>{r}×</option>
+          ))}
+        </select>
+        <span className="ml-auto text-sm tabular-nums text-zinc-600">
+          {clockLabel(time - span.from)} / {clockLabel(span.to - span.from)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { MOTOR } from "../../lib/haptics/feedbackOutput";
+import type { SimulatedPulse, SimulatedTransport } from "../../lib/haptics/simulatedTransport";
+import { TRANSPORT_OPTIONS, type TransportKind } from "../../lib/haptics/transports";
+import type { ConnectionState, HapticTransport, TransportStatus } from "../../lib/haptics/transport";
+
+const MOTOR_LABELS: Record<number, string> = {
+  [MOTOR.LEFT_UPPER_ARM]: "L Upper Arm",
+  [MOTOR.RIGHT_UPPER_ARM]: "R Upper Arm",
+  [MOTOR.LEFT_FOREARM]: "L Forearm",
+  [MOTOR.RIGHT_FOREARM]: "R Forearm",
+};
+
+export function SimulatedMotors({ device }: { device: SimulatedTransport }) {
+  const [active, setActive] = useState<Record<number, SimulatedPulse>>({});
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const unsubscribe = device.subscribe(pulse => {
+      setActive(prev => ({ ...prev, [pulse.motor]: pulse }));
+      const t = setTimeout(() => {
+        timers.delete(t);
+        setActive(prev => {
+          if (prev[pulse.motor] !== pulse) return prev;
+          const next = { ...prev };
+          delete next[pulse.motor];
+          return next;
+        });
+      }, pulse.durationMs);
+      timers.add(t);
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [device]);
+
+  return (
+    <div className="mt-2 grid grid-cols-2 gap-2">
+      {Array.from({ length: device.motors }, (_, motor) => {
+        const pulse = active[motor];
+        return (
+          <div key={motor} className="flex items-center gap-2">
+            <span
+              className={`w-4 h-4 rounded-full ${pulse ? "bg-indigo-600" : "bg-zinc-200"} ${pulse?.pattern === "double" ? "animate-pulse" : ""}`}
+              style={{ opacity: pulse ? 0.3 + 0.7 * pulse.amplitude : 1 }}
+            />
+            <span className="text-xs text-gray-600">{MOTOR_LABELS[motor] ?? `Motor ${motor}`}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const STATE_LABEL: Record<ConnectionState, string> = {
+  disconnected: "Disconnected",
+  connecting: "Pairing…",
+  connected: "Connected",
+  reconnecting: "Reconnecting…",
+};
+
+const STATE_DOT: Record<ConnectionState, string> = {
+  disconnected: "bg-zinc-300",
+  connecting: "bg-amber-400 animate-pulse",
+  connected: "bg-green-500",
+  reconnecting: "bg-amber-400 animate-pulse",
+};
+
+/** Transport picker, pairing button and link state for the monitor header. */
+export default function WearablePanel({
+  kind,
+  onKindChange,
+  transport,
+}: {
+  kind: TransportKind;
+  onKindChange: (kind: TransportKind) => void;
+  transport: HapticTransport;
+}) {
+  const [status, setStatus] = useState<TransportStatus>({ state: "disconnected", battery: null, error: null });
+  // Browser APIs are only known after hydration; the server render offers every option.
+  const [supported, setSupported] = useState<Partial<Record<TransportKind, boolean>>>({});
+
+  useEffect(() => {
+    setSupported(Object.fromEntries(TRANSPORT_OPTIONS.map(o => [o.kind, o.supported()])));
+  }, []);
+
+  useEffect(() => {
+    setStatus({ state: transport.isConnected() ? "connected" : "disconnected", battery: null, error: null });
+    return transport.onStatus?.(setStatus);
+  }, [transport]);
+
+  const toggle = async () => {
+    try {
+      if (transport.isConnected()) await transport.disconnect();
+      else await transport.connect();
+      if (!transport.onStatus) setStatus(s => ({ ...s, state: transport.isConnected() ? "connected" : "disconnected", error: null }));
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      setStatus(s => ({ ...s, state: "disconnected", error }));
+    }
+  };
+
+  const busy = status.state !== "disconnected";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className="text-sm text-zinc-900">Wearable</label>
+      <div className="relative">
+        <select
+          className="rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-black appearance-none pr-10"
+          value={kind}
+          onChange={e => onKindChange(e.target.value as TransportKind)}
+          aria-label="Select wearable connection"
+        >
+          {TRANSPORT_OPTIONS.map(o => (
+            <option key={o.kind} value={o.kind} disabled={supported[o.kind] === false}>{o.label}</option>
+          ))}
+        </select>
+        <svg className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-black" viewBox="0 0 20 20" fill="currentColor" aria-hidden>
+          <path d="M5.23 7.21a.75.75 0 0 1 1.06.02L10 10.17l3.71-2.94a.75.75 0 1 1 .94 1.16l-4.24 3.36a.75.75 0 0 1-.94 0L5.21 8.39a.75.75 0 0 1 .02-1.18z" />
+        </svg>
+      </div>
+      <button
+        type="button"
+        onClick={toggle}
+        className="rounded-md border border-indigo-600 px-3 py-2 text-sm text-indigo-700 hover:bg-indigo-50"
+      >
+        {busy ? "Disconnect" : "Pair"}
+      </button>
+      <span className="flex items-center gap-2 text-sm text-zinc-700">
+        <span className={`w-3 h-3 rounded-full ${STATE_DOT[status.state]}`} />
+        {STATE_LABEL[status.state]}
+        {status.battery !== null && <span className="text-zinc-500">· {status.battery}%</span>}
+      </span>
+      {status.error && <span className="text-xs text-red-500">{status.error}</span>}
+    </div>
+  );
+}
@@ -4,70 +4,12 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useMemo, useState, useEffect } from "react";
 import Stepper from "../components/Stepper";
 import { Lexend } from "next/font/google";
+import { getExercise } from "../../lib/exercises";
+import { DEFAULT_PHASE_FEEDBACK, monitorUrl, wantsFeedback, type PhaseFeedback } from "../../lib/feedbackConfig";
+import PhaseFeedbackForm, { AudioCuePicker } from "./PhaseFeedbackForm";
 
 const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
 
-type FeedbackPhase = { name: string; cues: string[] };
-type Exercise = {
-  id: string;
-  title: string;
-  muscles: string[];
-  imageUrl: string;
-  phases: FeedbackPhase[];
-};
-
-const EXERCISES: Exercise[] = [
-  {
-    id: "lat-raise",
-    title: "Lateral Raise",
-    muscles: ["Shoulders"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-lateral-raise/dumbbell-lateral-raise-800.avif",
-    phases: [
-      { name: "Lifting Phase (Concentric)", cues: ["Abducts the arms laterally on the scapular plane until approximately shoulder height."] },
-      { name: "Lowering Phase (Eccentric)", cues: ["Lowers the dumbbells back toward the sides under control."] },
-    ],
-  },
-  {
-    id: "db-incline-fly",
-    title: "Dumbbell Incline Fly",
-    muscles: ["Chest"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/incline-dumbbell-fly/incline-dumbbell-fly-800.avif",
-    phases: [
-      { name: "Setup", cues: ["Lying down on an incline bench (30-45°), dumbbells are positioned above the upper chest, palms facing each other. Lift the arms straight upwards."] },
-      { name: "Descent Phase (Eccentric)", cues: ["Lowers dumbbells in a wide arc, maintaining the fixed elbow angle."] },
-      { name: "Ascent Phase (Concentric)", cues: ["Bring dumbbells back up in the same arc, contracting the pectorals through horizontal adduction."] },
-    ],
-  },
-  {
-    id: "bench-press",
-    title: "Bench Press",
-    muscles: ["Chest", "Shoulders", "Triceps"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/bench-press/bench-press-800.avif",
-    phases: [
-      { name: "Setup", cues: ["Set your shoulder blades back and down."] },
-      { name: "Descent Phase", cues: ["Lower the bar to your chest with control."] },
-      { name: "Ascent Phase", cues: ["Drive through your chest and fully extend your arms."] },
-    ],
-  },
-  {
-    id: "arnold-press",
-    title: "Arnold Press",
-    muscles: ["Biceps", "Triceps"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/arnold-press/arnold-press-800.avif",
-    phases: [
-      { name: "Setup", cues: ["Palms face you, dumbbells in front of shoulders."] },
-      { name: "Concentric Phase", cues: ["Rotate wrists as you press upwards."] },
-      { name: "Eccentric Phase", cues: ["Rotate wrists back to the starting position as you lower."] },
-    ],
-  },
-];
-
-const slug = (s: string) =>
-  s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/(^-|-$)/g, "");
-
-type PhaseFormState = { intensity: number };
-const defaultPhaseState: PhaseFormState = { intensity: 0 };
-
 export default function FeedbackContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -75,12 +17,12 @@ export default function FeedbackContent() {
   const exerciseId = searchParams.get("exercise") || "";
   const musclesRaw = searchParams.get("muscles") || "";
 
-  const selectedExercise = EXERCISES.find((ex) => ex.id === exerciseId);
-  const phases = selectedExercise?.phases || [];
+  const selectedExercise = getExercise(exerciseId);
+  const phases = selectedExercise?.phases.filter((p) => p.selectable) || [];
 
   const [selectedPhaseNames, setSelectedPhaseNames] = useState<string[]>([]);
   const [configured, setConfigured] = useState<Set<string>>(new Set());
-  const [forms, setForms] = useState<Record<string, PhaseFormState>>({});
+  const [forms, setForms] = useState<Record<string, PhaseFeedback>>({});
 
   useEffect(() => {
     setSelectedPhaseNames([]);
@@ -97,7 +39,7 @@ export default function FeedbackContent() {
     setSelectedPhaseNames((prev) =>
       prev.includes(phaseName) ? prev.filter((p) => p !== phaseName) : [...prev, phaseName]
     );
-    setForms((prev) => (prev[phaseName] ? prev : { ...prev, [phaseName]: { ...defaultPhaseState } }));
+    setForms((prev) => (prev[phaseName] ? prev : { ...prev, [phaseName]: { ...DEFAULT_PHASE_FEEDBACK } }));
     setConfigured((prev) => {
       const next = new Set(prev);
       next.delete(phaseName);
@@ -115,16 +57,11 @@ export default function FeedbackContent() {
   };
 
   const goFinish = () => {
-    const exParam = encodeURIComponent(exerciseId);
-    const musclesParam = encodeURIComponent(musclesRaw || "");
-    const phasesParam = encodeURIComponent(selectedPhaseNames.join(","));
-    
-    const intensityValues = selectedPhaseNames.map(phaseName => {
-      return forms[phaseName]?.intensity || 0;
-    });
-    const intensityParam = encodeURIComponent(intensityValues.join(","));
+    router.push(monitorUrl(exerciseId, musclesRaw, selectedPhaseNames, forms));
+  };
 
-    router.push(`/monitor?exercise=${exParam}&muscles=${musclesParam}&phases=${phasesParam}&intensity=${intensityParam}`);
+  const updateForm = (phaseName: string, next: PhaseFeedback) => {
+    setForms((prev) => ({ ...prev, [phaseName]: next }));
   };
 
   return (
@@ -178,10 +115,10 @@ export default function FeedbackContent() {
             <div className="flex flex-col gap-6">
               {selectedPhaseNames.map((phaseName) => {
                 const saved = configured.has(phaseName);
-                const st = forms[phaseName] ?? defaultPhaseState;
+                const st = forms[phaseName] ?? DEFAULT_PHASE_FEEDBACK;
                 const phaseData = phases.find((p) => p.name === phaseName);
                 const cue = phaseData?.cues?.[0] ?? "No cue available.";
-                const videoSrc = `/videos/${exerciseId}-${slug(phaseName)}.mp4`;
+                const videoSrc = phaseData?.video ?? "";
 
                 const fill = ((st.intensity - 0) / 2) * 100;
 
@@ -229,9 +166,7 @@ export default function FeedbackContent() {
                         max={2}
                         step={1}
                         value={st.intensity}
-                        onChange={(e) =>
-                          setForms((prev) => ({ ...prev, [phaseName]: { intensity: Number(e.target.value) } }))
-                        }
+                        onChange={(e) => updateForm(phaseName, { ...st, intensity: Number(e.target.value) })}
                         className="range-arrow w-full"
                         aria-label="Feedback intensity"
                         style={{ ["--fill" as any]: `${fill}%` }}
@@ -243,6 +178,25 @@ export default function FeedbackContent() {
                       </div>
                     </div>
 
+                    <div className="mt-7 text-lg font-semibold text-zinc-900">Audio Cue</div>
+                    <div className="mt-3">
+                      <AudioCuePicker
+                        name={phaseName}
+                        value={st.audio}
+                        onChange={(audio) => updateForm(phaseName, { ...st, audio })}
+                      />
+                    </div>
+
+                    {wantsFeedback(st) && (
+                      <div className="mt-7 w-full max-w-3xl">
+                        <PhaseFeedbackForm
+                          name={phaseName}
+                          state={st}
+                          onChange={(ns) => updateForm(phaseName, ns)}
+                        />
+                      </div>
+                    )}
+
                     <div className="mt-6">
                       <button
                         onClick={() => handleSavePhase(phaseName)}
@@ -0,0 +1,200 @@
+"use client";
+
+import {
+  AUDIO_MODES,
+  CONTROLS,
+  DIRECTIONS,
+  GRANULARITIES,
+  INTENT_COLOR,
+  INTENTS,
+  MAX_THRESHOLD_DEG,
+  TRIGGERS,
+  type AudioMode,
+  type PhaseFeedback,
+} from "../../lib/feedbackConfig";
+
+const slug = (s: string) => s.replace(/\s+/g, "-").toLowerCase();
+
+function Seg<T extends string>({
+  name,
+  options,
+  value,
+  onChange,
+  colorMap,
+}: {
+  name: string;
+  options: T[];
+  value: T;
+  onChange: (v: T) => void;
+  colorMap?: Record<string, string>;
+}) {
+  return (
+    <div className="flex flex-wrap gap-3">
+      {options.map((opt) => {
+        const id = `${name}-${slug(opt)}`;
+        const selected = value === opt;
+        const custom = selected && colorMap?.[opt] ? colorMap[opt] : "";
+        return (
+          <label
+            key={opt}
+            htmlFor={id}
+            className={`cursor-pointer rounded-full px-4 py-2 text-sm font-semibold transition
+              ${selected ? "text-white shadow" : "bg-zinc-200 text-zinc-700 hover:bg-zinc-300"}`}
+            style={
+              selected && custom
+                ? { backgroundColor: custom }
+                : selected
+                ? { backgroundColor: "#4f46e5" }
+                : {}
+            }
+          >
+            <input
+              id={id}
+              className="sr-only"
+              type="radio"
+              name={name}
+              value={opt}
+              checked={selected}
+              onChange={() => onChange(opt)}
+            />
+            {opt}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+function Slider({
+  label,
+  value,
+  max,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  unit: string;
+  onChange: (n: number) => void;
+}) {
+  return (
+    <div className="mt-3">
+      <p className="text-sm text-zinc-700">
+        {label}: <span className="font-semibold">{value}{unit}</span>
+      </p>
+      <input
+        type="range"
+        min={0}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-2 w-full accent-indigo-600"
+      />
+    </div>
+  );
+}
+
+/** Audio is picked per phase next to the intensity, since it works with the haptics off. */
+export function AudioCuePicker({
+  name,
+  value,
+  onChange,
+}: {
+  name: string;
+  value: AudioMode;
+  onChange: (v: AudioMode) => void;
+}) {
+  return (
+    <div className="flex justify-center">
+      <Seg name={`${slug(name)}-audio`} options={AUDIO_MODES} value={value} onChange={onChange} />
+    </div>
+  );
+}
+
+/** Per-phase feedback settings; `name` keeps the radio groups of different phases apart. */
+export default function PhaseFeedbackForm({
+  name,
+  state,
+  onChange,
+}: {
+  name: string;
+  state: PhaseFeedback;
+  onChange: (s: PhaseFeedback) => void;
+}) {
+  const key = slug(name);
+  return (
+    <div className="grid gap-5 text-left">
+      <div className="grid grid-cols-[220px_1fr] items-center gap-4">
+        <label className="font-semibold text-zinc-900">Feedback Granularity</label>
+        <Seg
+          name={`${key}-granularity`}
+          options={GRANULARITIES}
+          value={state.granularity}
+          onChange={(v) => onChange({ ...state, granularity: v })}
+        />
+      </div>
+
+      <div className="grid grid-cols-[220px_1fr] items-center gap-4">
+        <label className="font-semibold text-zinc-900">Feedback Direction</label>
+        <Seg
+          name={`${key}-direction`}
+          options={DIRECTIONS}
+          value={state.direction}
+          onChange={(v) => onChange({ ...state, direction: v })}
+        />
+      </div>
+
+      <div className="grid grid-cols-[220px_1fr] items-center gap-4">
+        <label className="font-semibold text-zinc-900">Feedback Intent</label>
+        <Seg
+          name={`${key}-intent`}
+          options={INTENTS}
+          value={state.intent}
+          onChange={(v) => onChange({ ...state, intent: v })}
+          colorMap={INTENT_COLOR}
+        />
+      </div>
+
+      <div className="grid grid-cols-[220px_1fr] items-start gap-4">
+        <label className="mt-2 font-semibold text-zinc-900">Triggering Condition</label>
+        <div>
+          <Seg
+            name={`${key}-trigger`}
+            options={TRIGGERS}
+            value={state.trigger}
+            onChange={(v) => onChange({ ...state, trigger: v })}
+          />
+          <Slider
+            label={state.trigger === "Excessive Angle" ? "Excessive Angle Threshold" : "Asymmetry Threshold"}
+            value={state.threshold}
+            max={MAX_THRESHOLD_DEG}
+            unit="°"
+            onChange={(n) => onChange({ ...state, threshold: n })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[220px_1fr] items-start gap-4">
+        <label className="mt-2 font-semibold text-zinc-900">User Control</label>
+        <div>
+          <Seg
+            name={`${key}-control`}
+            options={CONTROLS}
+            value={state.control}
+            onChange={(v) => onChange({ ...state, control: v })}
+          />
+          {state.control === "User-Defined" && (
+            <Slider
+              label="Sensitivity"
+              value={state.sensitivity}
+              max={100}
+              unit="%"
+              onChange={(n) => onChange({ ...state, sensitivity: n })}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
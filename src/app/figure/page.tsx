@@ -3,132 +3,21 @@
 import { useEffect, useRef, useState, Suspense, useMemo } from "react";
 import { Lexend } from "next/font/google";
 import { useRouter, useSearchParams } from "next/navigation";
+import { findPhase, getExercise } from "../../lib/exercises";
+import { createCameraPipeline, poseStartProblem, type CameraId, type CameraPipeline } from "../../lib/pose/cameraPipeline";
+import { createSessionTracker, NO_PHASE, type SessionTracker } from "../../lib/pose/sessionTracker";
+import { drawJointArcs, drawPose } from "../../lib/pose/drawPose";
+import { emptyReadout, JOINT_ARCS } from "../../lib/pose/jointReadout";
+import { decodeFeedbackConfig, DEFAULT_PHASE_FEEDBACK, monitorUrl, wantsFeedback, type PhaseFeedback } from "../../lib/feedbackConfig";
+import PhaseFeedbackForm, { AudioCuePicker } from "../feedback/PhaseFeedbackForm";
 
 const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
 
 type VideoDevice = { deviceId: string; label: string };
 
-const EXERCISE_TITLES: Record<string, string> = {
-  "lat-raise": "Lateral Raise",
-  "db-incline-fly": "Dumbbell Incline Fly",
-  "bench-press": "Bench Press",
-  "arnold-press": "Arnold Press",
-  "db-front-hold": "Dumbbell Front Hold",
-};
-
-type FeedbackPhase = { name: string; cues: string[] };
-type Exercise = {
-  id: string;
-  title: string;
-  muscles: string[];
-  imageUrl: string;
-  phases: FeedbackPhase[];
-};
-
-const EXERCISES: Exercise[] = [
-  {
-    id: "lat-raise",
-    title: "Lateral Raise",
-    muscles: ["Shoulders"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-lateral-raise/dumbbell-lateral-raise-800.avif",
-    phases: [
-      { name: "Lifting Phase (Concentric)", cues: ["Abducts the arms laterally on the scapular plane until approximately shoulder height."] },
-      { name: "Lowering Phase (Eccentric)", cues: ["Lowers the dumbbells back toward the sides under control."] },
-    ],
-  },
-  {
-    id: "db-incline-fly",
-    title: "Dumbbell Incline Fly",
-    muscles: ["Chest"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/incline-dumbbell-fly/incline-dumbbell-fly-800.avif",
-    phases: [
-      { name: "Setup", cues: ["Lying down on an incline bench (30-45°), dumbbells are positioned above the upper chest, palms facing each other. Lift the arms straight upwards."] },
-      { name: "Descent Phase (Eccentric)", cues: ["Lowers dumbbells in a wide arc, maintaining the fixed elbow angle."] },
-      { name: "Ascent Phase (Concentric)", cues: ["Bring dumbbells back up in the same arc, contracting the pectorals through horizontal adduction."] },
-    ],
-  },
-  {
-    id: "bench-press",
-    title: "Bench Press",
-    muscles: ["Chest", "Shoulders", "Triceps"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/bench-press/bench-press-800.avif",
-    phases: [
-      { name: "Setup", cues: ["Set your shoulder blades back and down."] },
-      { name: "Descent Phase", cues: ["Lower the bar to your chest with control."] },
-      { name: "Ascent Phase", cues: ["Drive through your chest and fully extend your arms."] },
-    ],
-  },
-  {
-    id: "arnold-press",
-    title: "Arnold Press",
-    muscles: ["Biceps", "Triceps"],
-    imageUrl: "https://static.strengthlevel.com/images/exercises/arnold-press/arnold-press-800.avif",
-    phases: [
-      { name: "Setup", cues: ["Palms face you, dumbbells in front of shoulders."] },
-      { name: "Concentric Phase", cues: ["Rotate wrists as you press upwards."] },
-      { name: "Eccentric Phase", cues: ["Rotate wrists back to the starting position as you lower."] },
-    ],
-  },
-];
-
-const slug = (s: string) =>
-  s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/(^-|-$)/g, "");
-
-const EXERCISE_THRESHOLDS = {
-  "lat-raise": {
-    shoulder: { min: 10, max: 90 },
-    elbow: { min: 150, max: 180 },
-  },
-  "db-incline-fly": {
-    shoulder: { min: 45, max: 180 },
-    elbow: { min: 150, max: 170 },
-  },
-};
-
-const EXERCISE_PHASES_MAP = {
-  "lat-raise": [
-    { name: "Lifting Phase (Concentric)", angle: { min: 16, max: 89 } },
-    { name: "Lowering Phase (Eccentric)", angle: { min: 16, max: 89 } },
-    { name: "Starting Position", angle: { min: 0, max: 15 } },
-  ],
-  "db-incline-fly": [
-    { name: "Setup/Start Position", angle: { min: 160, max: 180 } },
-    { name: "Descent Phase (Eccentric)", angle: { min: 91, max: 159 } },
-    { name: "Ascent Phase (Concentric)", angle: { min: 91, max: 159 } },
-  ],
-};
-
-async function ensureMPLoaded() {
-  const win: any = window as any;
-  if (win.__mpLoaded) return;
-  const loadScript = (src: string) =>
-    new Promise<void>((resolve, reject) => {
-      const s = document.createElement("script");
-      s.src = src;
-      s.async = true;
-      s.crossOrigin = "anonymous";
-      s.onload = () => resolve();
-      s.onerror = reject;
-      document.body.appendChild(s);
-    });
-  await loadScript("https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils@0.3/drawing_utils.js");
-  await loadScript("https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.4/pose.js");
-  win.__mpLoaded = true;
-}
-
-const calculateAngle = (A: any, B: any, C: any) => {
-  if (!A || !B || !C) return 0;
-  const a = B.x - A.x;
-  const b = B.y - A.y;
-  const c = B.x - C.x;
-  const d = B.y - C.y;
-  const angle = Math.atan2(d, c) - Math.atan2(b, a);
-  const degrees = Math.abs(angle * 180.0 / Math.PI);
-  return degrees > 180 ? 360 - degrees : degrees;
-};
-
-type PhaseFormState = { intensity: number };
-const defaultPhaseState: PhaseFormState = { intensity: 0 };
+const UI_REFRESH_MS = 100;
+const NO_READOUT = emptyReadout();
+const POSE_OPTIONS = { model: "heavy", minDetectionConfidence: 0.3, minTrackingConfidence: 0.3 } as const;
 
 function FigureInner() {
   const router = useRouter();
@@ -138,13 +27,14 @@ function FigureInner() {
   const musclesRaw = decodeURIComponent(sp.get("muscles") || "");
   const phasesRaw = decodeURIComponent(sp.get("phases") || "");
   const intensityRaw = decodeURIComponent(sp.get("intensity") || "");
+  const feedbackRaw = decodeURIComponent(sp.get("feedback") || "");
 
-  const selectedExercise = EXERCISES.find((ex) => ex.id === exerciseId);
-  const phasesData = selectedExercise?.phases || [];
+  const exercise = getExercise(exerciseId);
+  const phasesData = exercise?.phases.filter((p) => p.selectable) || [];
 
   const [selectedPhaseNames, setSelectedPhaseNames] = useState<string[]>([]);
   const [configured, setConfigured] = useState<Set<string>>(new Set());
-  const [forms, setForms] = useState<Record<string, PhaseFormState>>({});
+  const [forms, setForms] = useState<Record<string, PhaseFeedback>>({});
 
   useEffect(() => {
     if (phasesRaw) {
@@ -157,23 +47,15 @@ function FigureInner() {
     if (phasesRaw && intensityRaw) {
       const names = phasesRaw.split(",").map(p => p.trim()).filter(Boolean);
       const intensities = intensityRaw.split(",").map(i => Number(i.trim()));
-      const initialForms: Record<string, PhaseFormState> = {};
-      const initialConfigured = new Set<string>();
-
-      names.forEach((name, index) => {
-        initialForms[name] = { intensity: intensities[index] };
-        initialConfigured.add(name);
-      });
-
       setSelectedPhaseNames(names);
-      setForms(initialForms);
-      setConfigured(initialConfigured);
+      setForms(decodeFeedbackConfig(feedbackRaw, names, intensities));
+      setConfigured(new Set(names));
     } else {
       setSelectedPhaseNames([]);
       setForms({});
       setConfigured(new Set());
     }
-  }, [phasesRaw, intensityRaw]);
+  }, [phasesRaw, intensityRaw, feedbackRaw]);
 
   const progress = useMemo(() => {
     if (selectedPhaseNames.length === 0) return 0;
@@ -184,7 +66,7 @@ function FigureInner() {
     setSelectedPhaseNames((prev) =>
       prev.includes(phaseName) ? prev.filter((p) => p !== phaseName) : [...prev, phaseName]
     );
-    setForms((prev) => (prev[phaseName] ? prev : { ...prev, [phaseName]: { ...defaultPhaseState } }));
+    setForms((prev) => (prev[phaseName] ? prev : { ...prev, [phaseName]: { ...DEFAULT_PHASE_FEEDBACK } }));
     setConfigured((prev) => {
       const next = new Set(prev);
       next.delete(phaseName);
@@ -197,26 +79,21 @@ function FigureInner() {
   };
   
   const handleFinishConfiguration = () => {
-    const exParam = encodeURIComponent(exerciseId);
-    const musclesParam = encodeURIComponent(musclesRaw || "");
-    const phasesParam = encodeURIComponent(selectedPhaseNames.join(","));
-    
-    const intensityValues = selectedPhaseNames.map(phaseName => {
-      return forms[phaseName]?.intensity || 0;
-    });
-    const intensityParam = encodeURIComponent(intensityValues.join(","));
+    router.push(monitorUrl(exerciseId, musclesRaw, selectedPhaseNames, forms));
+  };
 
-    router.push(`/monitor?exercise=${exParam}&muscles=${musclesParam}&phases=${phasesParam}&intensity=${intensityParam}`);
+  const updateForm = (phaseName: string, next: PhaseFeedback) => {
+    setForms((prev) => ({ ...prev, [phaseName]: next }));
   };
 
-  const exerciseTitle = EXERCISE_TITLES[exerciseId] || "—";
+  const exerciseTitle = exercise?.title || "—";
 
   const initialMuscles = useMemo(
     () => (musclesRaw ? musclesRaw.split(",").map(m => m.trim()).filter(Boolean) : []),
     [musclesRaw]
   );
   
-  const tutorialSrc = exerciseId ? `/videos/tutorial-${exerciseId}.mp4` : "";
+  const tutorialSrc = exercise?.tutorial ?? "";
 
   const [showPoseOverlay, setShowPoseOverlay] = useState(false);
   const [showMediaPipeOverlay, setShowMediaPipeOverlay] = useState(true);
@@ -235,15 +112,8 @@ function FigureInner() {
   const canvasSideRef = useRef<HTMLCanvasElement>(null);
   const modalCanvasRef = useRef<HTMLCanvasElement>(null);
 
-  const mpPoseRef = useRef<any>(null);
-  const mpRafRef = useRef<number | null>(null);
-
-  const mpPoseFrontRef = useRef<any>(null);
-  const mpPoseSideRef = useRef<any>(null);
-  const mpPoseModalRef = useRef<any>(null);
-  const rafFrontRef = useRef<number | null>(null);
-  const rafSideRef = useRef<number | null>(null);
-  const rafModalRef = useRef<number | null>(null);
+  const [session, setSession] = useState<{ cameras: Record<CameraId, CameraPipeline>; tracker: SessionTracker } | null>(null);
+  const [poseProblem, setPoseProblem] = useState<string | null>(null);
 
   const [selectedMuscles, setSelectedMuscles] = useState<string[]>([]);
   const [reps, setReps] = useState(0);
@@ -258,53 +128,64 @@ function FigureInner() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isCompletionDialogOpen, setIsCompletionDialogOpen] = useState(false);
   const [modalName, setModalName] = useState("");
-  const [modalTarget, setModalTarget] = useState<"front" | "side" | null>(null);
-
-  const [leftShoulderAngle, setLeftShoulderAngle] = useState(0);
-  const [rightShoulderAngle, setRightShoulderAngle] = useState(0);
-  const [leftShoulderPos, setLeftShoulderPos] = useState({ x: 0, y: 0, visible: false });
-  const [rightShoulderPos, setRightShoulderPos] = useState({ x: 0, y: 0, visible: false });
+  const [modalTarget, setModalTarget] = useState<CameraId | null>(null);
 
-  const [leftElbowAngle, setLeftElbowAngle] = useState(0);
-  const [rightElbowAngle, setRightElbowAngle] = useState(0);
-  const [leftElbowPos, setLeftElbowPos] = useState({ x: 0, y: 0, visible: false });
-  const [rightElbowPos, setRightElbowPos] = useState({ x: 0, y: 0, visible: false });
+  const [readout, setReadout] = useState(NO_READOUT);
 
-  const [leftShoulderCorrect, setLeftShoulderCorrect] = useState(true);
-  const [rightShoulderCorrect, setRightShoulderCorrect] = useState(true);
-  const [leftElbowCorrect, setLeftElbowCorrect] = useState(true);
-  const [rightElbowCorrect, setRightElbowCorrect] = useState(true);
-
-  const [currentPhase, setCurrentPhase] = useState("—");
+  const [currentPhase, setCurrentPhase] = useState(NO_PHASE);
   const lastPhaseRef = useRef('');
 
   const streamFrontRef = useRef<MediaStream | null>(null);
   const streamSideRef = useRef<MediaStream | null>(null);
 
-  const repStateRef = useRef<'start' | 'lifting' | 'peak' | 'lowering' | 'descending' | 'bottom' | 'ascending'>('start');
-  
-  const phaseToFilename: Record<string, string> = {
-    "Starting Position": "starting_position",
-    "Lifting Phase (Concentric)": "lifting_phase_concentric",
-    "Lowering Phase (Eccentric)": "lowering_phase_eccentric",
-    "Setup/Start Position": "setup_start_position",
-    "Descent Phase (Eccentric)": "descent_phase_eccentric",
-    "Ascent Phase (Concentric)": "ascent_phase_concentric",
-  };
+  useEffect(() => {
+    const cameras: Record<CameraId, CameraPipeline> = {
+      front: createCameraPipeline({ camera: "front", video: () => videoFrontRef.current, pose: POSE_OPTIONS }),
+      side: createCameraPipeline({ camera: "side", video: () => videoSideRef.current, pose: POSE_OPTIONS }),
+    };
+    const tracker = createSessionTracker(cameras, exercise);
+    setSession({ cameras, tracker });
+    return () => {
+      tracker.close();
+      cameras.front.close();
+      cameras.side.close();
+    };
+  }, [exercise]);
+
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    poseStartProblem(Object.values(session.cameras)).then((problem) => {
+      if (!cancelled) setPoseProblem(problem);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
 
   useEffect(() => {
-    if (!isModalOpen || !exerciseId) return;
-    const fileName = phaseToFilename[currentPhase] || "default";
-    const imagePath = `/images/${exerciseId}-${fileName}.png`;
-    
-    if (imagePath && !overlayImageCache.current[imagePath]) {
+    if (!session) return;
+    const id = setInterval(() => {
+      const analysis = session.tracker.latest();
+      setReps(analysis.reps);
+      setCurrentPhase(analysis.phase);
+      setReadout(modalTarget ? analysis.readouts[modalTarget] : NO_READOUT);
+    }, UI_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [session, modalTarget]);
+  
+  useEffect(() => {
+    if (!isModalOpen || !exercise) return;
+    for (const phase of exercise.phases) {
+      const imagePath = phase.overlay;
+      if (!imagePath || overlayImageCache.current[imagePath]) continue;
       const img = new Image();
       img.src = imagePath;
       img.onload = () => {
         overlayImageCache.current[imagePath] = img;
       };
     }
-  }, [isModalOpen, exerciseId, currentPhase]);
+  }, [isModalOpen, exercise]);
   
   useEffect(() => {
     if (lastPhaseRef.current !== currentPhase) {
@@ -371,19 +252,9 @@ function FigureInner() {
   const handleFinishSession = () => {
     stopStream(streamFrontRef.current);
     stopStream(streamSideRef.current);
-    if (rafFrontRef.current) cancelAnimationFrame(rafFrontRef.current);
-    if (rafSideRef.current) cancelAnimationFrame(rafSideRef.current);
-    if (rafModalRef.current) cancelAnimationFrame(rafModalRef.current);
-
-    if (mpPoseFrontRef.current?.close) {
-        try { mpPoseFrontRef.current.close(); } catch { }
-    }
-    if (mpPoseSideRef.current?.close) {
-        try { mpPoseSideRef.current.close(); } catch { }
-    }
-    if (mpPoseModalRef.current?.close) {
-        try { mpPoseModalRef.current.close(); } catch { }
-    }
+    session?.tracker.reset();
+    session?.cameras.front.close();
+    session?.cameras.side.close();
 
     setReps(0);
     setDuration(0);
@@ -421,363 +292,73 @@ function FigureInner() {
   useEffect(() => { if (sideCam) startStream(sideCam, "side"); }, [sideCam]);
 
   useEffect(() => {
-    if (!isModalOpen || !modalTarget) return;
+    if (!isModalOpen || !modalTarget || !session) return;
     let cancelled = false;
 
-    const drawAngleArc = (ctx: CanvasRenderingContext2D, center: any, point1: any, point2: any, color: string) => {
-      if (!center || !point1 || !point2) return;
-
-      const p1x = point1.x * ctx.canvas.width;
-      const p1y = point1.y * ctx.canvas.height;
-      const cx = center.x * ctx.canvas.width;
-      const cy = center.y * ctx.canvas.height;
-      const p2x = point2.x * ctx.canvas.width;
-      const p2y = point2.y * ctx.canvas.height;
-
-      const a1 = Math.atan2(p1y - cy, p1x - cx);
-      const a2 = Math.atan2(p2y - cy, p2x - cx);
-
-      ctx.beginPath();
-      let angleDiff = a2 - a1;
-      if (angleDiff < 0) angleDiff += 2 * Math.PI;
-
-      if (angleDiff > Math.PI) {
-        ctx.arc(cx, cy, 30, a1, a2, true);
-      } else {
-        ctx.arc(cx, cy, 30, a1, a2, false);
-      }
-
-      ctx.lineWidth = 3;
-      ctx.strokeStyle = color;
-      ctx.stroke();
-    };
-
     (async () => {
-      await ensureMPLoaded();
-      if (cancelled) return;
-
       const stream = modalTarget === "front" ? streamFrontRef.current : streamSideRef.current;
-      if (modalVideoRef.current && stream) {
+      if (modalVideoRef.current && stream && !cancelled) {
         modalVideoRef.current.srcObject = stream;
         await modalVideoRef.current.play?.();
       }
+    })();
 
-      const win: any = window as any;
-      const Pose = win.Pose;
-      const MP = win;
-
-      const pose = new Pose({
-        locateFile: (file: string) =>
-          `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${MP.VERSION}/${file}`
-      });
-      pose.setOptions({
-        selfieMode: true,
-        modelComplexity: 2,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: true,
-        minDetectionConfidence: 0.3,
-        minTrackingConfidence: 0.3,
-      });
-
-      const checkForm = (angle: number, threshold: { min: number, max: number }) => {
-        return angle >= threshold.min && angle <= threshold.max;
-      };
-
-      const updateElbowAngles = (landmarks: any, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
-        if (!landmarks) return;
-        const leftShoulder = landmarks[MP.POSE_LANDMARKS.LEFT_SHOULDER];
-        const leftElbow = landmarks[MP.POSE_LANDMARKS.LEFT_ELBOW];
-        const leftWrist = landmarks[MP.POSE_LANDMARKS.LEFT_WRIST];
-        const rightShoulder = landmarks[MP.POSE_LANDMARKS.RIGHT_SHOULDER];
-        const rightElbow = landmarks[MP.POSE_LANDMARKS.RIGHT_ELBOW];
-        const rightWrist = landmarks[MP.POSE_LANDMARKS.RIGHT_WRIST];
-
-        let lAngle = 0, rAngle = 0;
-        let lPos = { x: 0, y: 0, visible: false };
-        let rPos = { x: 0, y: 0, visible: false };
-        let lCorrect = true, rCorrect = true;
-
-        const elbowThreshold = EXERCISE_THRESHOLDS[exerciseId as keyof typeof EXERCISE_THRESHOLDS]?.elbow;
-
-        if (leftShoulder && leftElbow && leftWrist && leftElbow.visibility > 0.5) {
-          lAngle = calculateAngle(leftShoulder, leftElbow, leftWrist);
-          lPos = {
-            x: leftElbow.x * canvas.width,
-            y: leftElbow.y * canvas.height,
-            visible: true
-          };
-          if (elbowThreshold) lCorrect = checkForm(lAngle, elbowThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, leftElbow, leftShoulder, leftWrist, lCorrect ? '#00FF00' : '#FF0000');
-        }
-        if (rightShoulder && rightElbow && rightWrist && rightElbow.visibility > 0.5) {
-          rAngle = calculateAngle(rightShoulder, rightElbow, rightWrist);
-          rPos = {
-            x: rightElbow.x * canvas.width,
-            y: rightElbow.y * canvas.height,
-            visible: true
-          };
-          if (elbowThreshold) rCorrect = checkForm(rAngle, elbowThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, rightElbow, rightShoulder, rightWrist, rCorrect ? '#00FF00' : '#FF0000');
-        }
-
-        if (modalTarget === 'side') {
-          if (lPos.visible && !rPos.visible) {
-            rPos.visible = false;
-            rAngle = 0;
-            rCorrect = true;
-          } else if (rPos.visible && !lPos.visible) {
-            lPos.visible = false;
-            lAngle = 0;
-            lCorrect = true;
-          } else if (lPos.visible && rPos.visible) {
-            if (leftElbow.visibility > rightElbow.visibility) {
-              rPos.visible = false;
-              rAngle = 0;
-              rCorrect = true;
-            } else {
-              lPos.visible = false;
-              lAngle = 0;
-              lCorrect = true;
-            }
-          }
-        }
-        setLeftElbowAngle(lAngle);
-        setRightElbowAngle(rAngle);
-        setLeftElbowPos(lPos);
-        setRightElbowPos(rPos);
-        setLeftElbowCorrect(lCorrect);
-        setRightElbowCorrect(rCorrect);
-      };
+    // The modal is only a bigger view of the session; closing it leaves the analysis running.
+    const unsubscribe = session.tracker.subscribe(({ views, readouts, phase, updated }) => {
+      if (updated !== modalTarget) return;
+      const result = views[modalTarget];
+      const canvas = modalCanvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      const v = modalVideoRef.current;
+      if (!canvas || !ctx || !v) return;
+
+      const rect = v.getBoundingClientRect();
+      const w = Math.floor(rect.width);
+      const h = Math.floor(rect.height);
+      if (w && h && (canvas.width !== w || canvas.height !== h)) {
+        canvas.width = w;
+        canvas.height = h;
+      }
 
-      const updateShoulderAngles = (landmarks: any, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
-        if (!landmarks) return;
-        const leftHip = landmarks[MP.POSE_LANDMARKS.LEFT_HIP];
-        const leftShoulder = landmarks[MP.POSE_LANDMARKS.LEFT_SHOULDER];
-        const leftElbow = landmarks[MP.POSE_LANDMARKS.LEFT_ELBOW];
-        const rightHip = landmarks[MP.POSE_LANDMARKS.RIGHT_HIP];
-        const rightShoulder = landmarks[MP.POSE_LANDMARKS.RIGHT_SHOULDER];
-        const rightElbow = landmarks[MP.POSE_LANDMARKS.RIGHT_ELBOW];
-
-        let lAngle = 0, rAngle = 0;
-        let lPos = { x: 0, y: 0, visible: false };
-        let rPos = { x: 0, y: 0, visible: false };
-        let lCorrect = true, rCorrect = true;
-        
-        const shoulderThreshold = EXERCISE_THRESHOLDS[exerciseId as keyof typeof EXERCISE_THRESHOLDS]?.shoulder;
-        
-        if (leftHip && leftShoulder && leftElbow && leftShoulder.visibility > 0.5) {
-          lAngle = calculateAngle(leftHip, leftShoulder, leftElbow);
-          lPos = {
-            x: leftShoulder.x * canvas.width,
-            y: leftShoulder.y * canvas.height,
-            visible: true
-          };
-          if (shoulderThreshold) lCorrect = checkForm(lAngle, shoulderThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, leftShoulder, leftHip, leftElbow, lCorrect ? '#00FF00' : '#FF0000');
-        }
-        if (rightHip && rightShoulder && rightElbow && rightShoulder.visibility > 0.5) {
-          rAngle = calculateAngle(rightHip, rightShoulder, rightElbow);
-          rPos = {
-            x: rightShoulder.x * canvas.width,
-            y: rightShoulder.y * canvas.height,
-            visible: true
-          };
-          if (shoulderThreshold) rCorrect = checkForm(rAngle, shoulderThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, rightShoulder, rightHip, rightElbow, rCorrect ? '#00FF00' : '#FF0000');
-        }
+      ctx.save();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-        if (modalTarget === 'side') {
-          if (lPos.visible && !rPos.visible) {
-            rPos.visible = false;
-            rAngle = 0;
-            rCorrect = true;
-          } else if (rPos.visible && !lPos.visible) {
-            lPos.visible = false;
-            lAngle = 0;
-            lCorrect = true;
-          } else if (lPos.visible && rPos.visible) {
-            if (leftShoulder.visibility > rightShoulder.visibility) {
-              rPos.visible = false;
-              rAngle = 0;
-              rCorrect = true;
-            } else {
-              lPos.visible = false;
-              lAngle = 0;
-              lCorrect = true;
-            }
-          }
-        }
-        setLeftShoulderAngle(lAngle);
-        setRightShoulderAngle(rAngle);
-        setLeftShoulderPos(lPos);
-        setRightShoulderPos(rPos);
-        setLeftShoulderCorrect(lCorrect);
-        setRightShoulderCorrect(rCorrect);
-      };
-      
-      const handlePhaseAndRepTracking = (landmarks: any) => {
-        const leftShoulder = landmarks[MP.POSE_LANDMARKS.LEFT_SHOULDER];
-        const rightShoulder = landmarks[MP.POSE_LANDMARKS.RIGHT_SHOULDER];
-        const leftHip = landmarks[MP.POSE_LANDMARKS.LEFT_HIP];
-        const rightHip = landmarks[MP.POSE_LANDMARKS.RIGHT_HIP];
-        const leftElbow = landmarks[MP.POSE_LANDMARKS.LEFT_ELBOW];
-        const rightElbow = landmarks[MP.POSE_LANDMARKS.RIGHT_ELBOW];
-
-        if (!leftShoulder || !rightShoulder || !leftHip || !rightHip || !leftElbow || !rightElbow) {
-            setCurrentPhase("—");
-            return;
-        }
-
-        const lAngle = calculateAngle(leftHip, leftShoulder, leftElbow);
-        const rAngle = calculateAngle(rightHip, rightShoulder, rightElbow);
-        const angleToTrack = leftShoulder.visibility > rightShoulder.visibility ? lAngle : rAngle;
-
-        switch (exerciseId) {
-            case "lat-raise": {
-                if (angleToTrack > 85 && repStateRef.current === 'lifting') {
-                    repStateRef.current = 'peak';
-                    setCurrentPhase("Lifting Phase (Concentric)");
-                } else if (angleToTrack <= 30 && repStateRef.current === 'lowering') {
-                    setReps(prevReps => prevReps + 1);
-                    repStateRef.current = 'start';
-                    setCurrentPhase("Starting Position");
-                } else if (angleToTrack > 30 && angleToTrack < 85 && repStateRef.current === 'start') {
-                    repStateRef.current = 'lifting';
-                    setCurrentPhase("Lifting Phase (Concentric)");
-                } else if (angleToTrack < 85 && repStateRef.current === 'peak') {
-                    repStateRef.current = 'lowering';
-                    setCurrentPhase("Lowering Phase (Eccentric)");
-                }
-                break;
-            }
-            case "db-incline-fly": {
-                if (angleToTrack <= 95 && repStateRef.current === 'descending') {
-                    repStateRef.current = 'bottom';
-                    setCurrentPhase("Descent Phase (Eccentric)");
-                } else if (angleToTrack >= 160 && repStateRef.current === 'ascending') {
-                    setReps(prevReps => prevReps + 1);
-                    repStateRef.current = 'start';
-                    setCurrentPhase("Setup/Start Position");
-                } else if (angleToTrack < 160 && angleToTrack > 95 && repStateRef.current === 'start') {
-                    repStateRef.current = 'descending';
-                    setCurrentPhase("Descent Phase (Eccentric)");
-                } else if (angleToTrack > 95 && repStateRef.current === 'bottom') {
-                    repStateRef.current = 'ascending';
-                    setCurrentPhase("Ascent Phase (Concentric)");
-                }
-                break;
-            }
-            default:
-                setCurrentPhase("—");
-                break;
-        }
-      };
-      
-      const onResults = (results: any) => {
-        const canvas = modalCanvasRef.current;
-        const ctx = canvas?.getContext("2d");
-        const v = modalVideoRef.current;
-        if (!canvas || !ctx || !v) return;
+      const imagePath = findPhase(exercise, phase)?.overlay;
+      const imageToDraw = imagePath ? overlayImageCache.current[imagePath] : null;
+      if (showPoseOverlay && imageToDraw) {
+        ctx.globalAlpha = 0.3;
+        ctx.drawImage(imageToDraw, 0, 0, canvas.width, canvas.height);
+        ctx.globalAlpha = 1;
+      }
 
-        if (v) {
-          const rect = v.getBoundingClientRect();
-          const w = Math.floor(rect.width);
-          const h = Math.floor(rect.height);
-          if (w && h && (canvas.width !== w || canvas.height !== h)) {
-            canvas.width = w;
-            canvas.height = h;
-          }
-        }
-        
-        ctx.save();
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        if (results.poseLandmarks) {
-          handlePhaseAndRepTracking(results.poseLandmarks);
-        }
+      if (showMediaPipeOverlay && result) {
+        drawJointArcs(ctx, result.landmarks, readouts[modalTarget]);
+        drawPose(ctx, result.landmarks);
+      }
 
-        const fileName = phaseToFilename[currentPhase] || "default";
-        const imagePath = `/images/${exerciseId}-${fileName}.png`;
-        const imageToDraw = imagePath ? overlayImageCache.current[imagePath] : null;
-        if (showPoseOverlay && imageToDraw) {
-            ctx.globalAlpha = 0.3;
-            ctx.drawImage(imageToDraw, 0, 0, canvas.width, canvas.height);
-        }
-        
-        if (showMediaPipeOverlay && results.poseLandmarks) {
-          const landmarks = results.poseLandmarks;
-          updateShoulderAngles(landmarks, canvas, ctx);
-          updateElbowAngles(landmarks, canvas, ctx);
-          MP.drawConnectors(ctx, landmarks, MP.POSE_CONNECTIONS, {
-              visibilityMin: 0.65,
-              color: 'white'
-          });
-          const left = Object.values(MP.POSE_LANDMARKS_LEFT).map((i: any) => landmarks[i]);
-          const right = Object.values(MP.POSE_LANDMARKS_RIGHT).map((i: any) => landmarks[i]);
-          const neutral = Object.values(MP.POSE_LANDMARKS_NEUTRAL).map((i: any) => landmarks[i]);
-          MP.drawLandmarks(ctx, left, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(255,138,0)' });
-          MP.drawLandmarks(ctx, right, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(0,217,231)' });
-          MP.drawLandmarks(ctx, neutral, { visibilityMin: 0.65, color: 'white', fillColor: 'white' });
-        }
-        
-        ctx.restore();
-      };
-      
-      pose.onResults(onResults);
-      mpPoseModalRef.current = pose;
-
-      const pump = async () => {
-        if (cancelled) return;
-        const v = modalVideoRef.current;
-        if (v && v.readyState >= 2) {
-          await mpPoseModalRef.current.send({ image: v });
-        }
-        rafModalRef.current = requestAnimationFrame(pump);
-      };
-      rafModalRef.current = requestAnimationFrame(pump);
-    })();
+      ctx.restore();
+    });
 
     return () => {
       cancelled = true;
-      if (rafModalRef.current) cancelAnimationFrame(rafModalRef.current);
-      rafModalRef.current = null;
-      if (mpPoseModalRef.current?.close) {
-        try { mpPoseModalRef.current.close(); } catch { }
-      }
-      mpPoseModalRef.current = null;
+      unsubscribe();
     };
-  }, [isModalOpen, modalTarget, exerciseId, currentPhase, showPoseOverlay, showMediaPipeOverlay]);
+  }, [isModalOpen, modalTarget, session, exercise, showPoseOverlay, showMediaPipeOverlay]);
 
   useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      await ensureMPLoaded();
-      if (cancelled) return;
-
-      const win: any = window as any;
-      const Pose = win.Pose;
-      const MP = win;
-      const pose = new Pose({
-        locateFile: (file: string) =>
-          `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${MP.VERSION}/${file}`
-      });
-      pose.setOptions({
-        selfieMode: true,
-        modelComplexity: 1,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      const onResults = (results: any) => {
-        const canvas = canvasSideRef.current;
+    if (!session) return;
+    const tiles = [
+      { pipeline: session.cameras.front, video: videoFrontRef, canvas: canvasFrontRef },
+      { pipeline: session.cameras.side, video: videoSideRef, canvas: canvasSideRef },
+    ];
+
+    const unsubscribes = tiles.map(tile =>
+      tile.pipeline.subscribe(result => {
+        const canvas = tile.canvas.current;
         const ctx = canvas?.getContext("2d");
         if (!canvas || !ctx) return;
 
-        const v = videoSideRef.current;
+        const v = tile.video.current;
         if (v) {
           const w = v.clientWidth || 0;
           const h = v.clientHeight || 0;
@@ -789,41 +370,14 @@ function FigureInner() {
 
         ctx.save();
         ctx.clearRect(0, 0, canvas.width, canvas.height);
-        if (results.poseLandmarks) {
-          MP.drawConnectors(ctx, results.poseLandmarks, MP.POSE_CONNECTIONS, {
-            visibilityMin: 0.65,
-            color: 'white'
-          });
-          const left = Object.values(MP.POSE_LANDMARKS_LEFT).map((i: any) => results.poseLandmarks[i]);
-          const right = Object.values(MP.POSE_LANDMARKS_RIGHT).map((i: any) => results.poseLandmarks[i]);
-          const neutral = Object.values(MP.POSE_LANDMARKS_NEUTRAL).map((i: any) => results.poseLandmarks[i]);
-          MP.drawLandmarks(ctx, left, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(255,138,0)' });
-          MP.drawLandmarks(ctx, right, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(0,217,231)' });
-          MP.drawLandmarks(ctx, neutral, { visibilityMin: 0.65, color: 'white', fillColor: 'white' });
+        if (result) {
+          drawPose(ctx, result.landmarks);
         }
         ctx.restore();
-      };
-
-      pose.onResults(onResults);
-      mpPoseSideRef.current = pose;
-
-      const pump = async () => {
-        if (cancelled) return;
-        const v = videoSideRef.current;
-        if (v && v.readyState >= 2) {
-          await mpPoseSideRef.current.send({ image: v });
-        }
-        rafSideRef.current = requestAnimationFrame(pump);
-      };
-      rafSideRef.current = requestAnimationFrame(pump);
-    })();
-
-    return () => {
-      cancelled = true;
-      if (rafSideRef.current) cancelAnimationFrame(rafSideRef.current);
-      rafSideRef.current = null;
-    };
-  }, []);
+      })
+    );
+    return () => unsubscribes.forEach(u => u());
+  }, [session]);
 
   useEffect(() => {
     const id = setInterval(() => {
@@ -853,6 +407,11 @@ function FigureInner() {
     >
       <div className="mx-auto w-full max-w-screen-2xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5">
         <h1 className="text-2xl sm:text-3xl font-extrabold text-indigo-700 mb-6 text-center">Monitor Your Exercise</h1>
+          {poseProblem && (
+            <p className="mb-4 rounded-xl bg-red-50 p-3 text-center text-sm text-red-700 ring-1 ring-red-200" role="alert">
+              {poseProblem}
+            </p>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
             <div className="w-full">
               <div className="mb-2 flex items-center gap-2">
@@ -889,7 +448,7 @@ function FigureInner() {
                   />
                   <canvas
                     ref={canvasFrontRef}
-                    className="absolute inset-0 pointer-events-none [scale-x-[-1]]"
+                    className="absolute inset-0 pointer-events-none"
                   />
                 </button>
                 <div className={`absolute left-1/2 bottom-4 -translate-x-1/2 z-10 px-4 py-2 rounded-md font-semibold ${phaseCompleteText ? 'bg-white/20 backdrop-blur text-green-500' : 'hidden'}`}>
@@ -929,6 +488,10 @@ function FigureInner() {
                   playsInline
                   muted
                 />
+                <canvas
+                  ref={canvasSideRef}
+                  className="absolute inset-0 pointer-events-none"
+                />
                 <div className={`absolute left-1/2 bottom-4 -translate-x-1/2 z-10 px-4 py-2 rounded-md font-semibold ${phaseCompleteText ? 'bg-white/20 backdrop-blur text-green-500' : 'hidden'}`}>
                   {phaseCompleteText}
                 </div>
@@ -1010,10 +573,10 @@ function FigureInner() {
             <div className="flex flex-col gap-6">
               {selectedPhaseNames.map((phaseName) => {
                 const saved = configured.has(phaseName);
-                const st = forms[phaseName] ?? defaultPhaseState;
+                const st = forms[phaseName] ?? DEFAULT_PHASE_FEEDBACK;
                 const phaseData = phasesData.find((p) => p.name === phaseName);
                 const cue = phaseData?.cues?.[0] ?? "No cue available.";
-                const videoSrc = `/videos/${exerciseId}-${slug(phaseName)}.mp4`;
+                const videoSrc = phaseData?.video ?? "";
 
                 const fill = ((st.intensity - 0) / 2) * 100;
 
@@ -1061,9 +624,7 @@ function FigureInner() {
                         max={2}
                         step={1}
                         value={st.intensity}
-                        onChange={(e) =>
-                          setForms((prev) => ({ ...prev, [phaseName]: { intensity: Number(e.target.value) } }))
-                        }
+                        onChange={(e) => updateForm(phaseName, { ...st, intensity: Number(e.target.value) })}
                         className="range-arrow w-full"
                         aria-label="Feedback intensity"
                         style={{ ["--fill" as any]: `${fill}%` }}
@@ -1075,6 +636,25 @@ function FigureInner() {
                       </div>
                     </div>
 
+                    <div className="mt-7 text-lg font-semibold text-zinc-900">Audio Cue</div>
+                    <div className="mt-3">
+                      <AudioCuePicker
+                        name={phaseName}
+                        value={st.audio}
+                        onChange={(audio) => updateForm(phaseName, { ...st, audio })}
+                      />
+                    </div>
+
+                    {wantsFeedback(st) && (
+                      <div className="mt-7 w-full max-w-3xl">
+                        <PhaseFeedbackForm
+                          name={phaseName}
+                          state={st}
+                          onChange={(ns) => updateForm(phaseName, ns)}
+                        />
+                      </div>
+                    )}
+
                     <div className="mt-6">
                       <button
                         onClick={() => handleSavePhase(phaseName)}
@@ -1156,65 +736,25 @@ function FigureInner() {
                     className="absolute inset-0 pointer-events-none"
                   />
                   
-                  {leftShoulderPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${leftShoulderPos.x}px`,
-                        top: `${leftShoulderPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: leftShoulderCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>R-Shoulder: {Math.round(leftShoulderAngle)}°</p>
-                    </div>
-                  )}
-
-                  {rightShoulderPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${rightShoulderPos.x}px`,
-                        top: `${rightShoulderPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: rightShoulderCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>L-Shoulder: {Math.round(rightShoulderAngle)}°</p>
-                    </div>
-                  )}
-
-                  {leftElbowPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${leftElbowPos.x}px`,
-                        top: `${leftElbowPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: leftElbowCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>R-Elbow: {Math.round(leftElbowAngle)}°</p>
-                    </div>
-                  )}
-
-                  {rightElbowPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${rightElbowPos.x}px`,
-                        top: `${rightElbowPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: rightElbowCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>L-Elbow: {Math.round(rightElbowAngle)}°</p>
-                    </div>
-                  )}
+                  {showMediaPipeOverlay && JOINT_ARCS.map(j => {
+                    const r = readout[j.key];
+                    if (!r.visible) return null;
+                    return (
+                      <div
+                        key={j.key}
+                        className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
+                        style={{
+                          left: `${r.x * 100}%`,
+                          top: `${r.y * 100}%`,
+                          transform: 'translate(-50%, -150%)',
+                          textShadow: '1px 1px 2px #000',
+                          color: r.correct ? '#00FF00' : '#FF0000'
+                        }}
+                      >
+                        <p>{j.label}: {Math.round(r.angle)}°</p>
+                      </div>
+                    );
+                  })}
                 </div>
               )}
               
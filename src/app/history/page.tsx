@@ -0,0 +1,286 @@
+"use client";
+
+import { Lexend } from "next/font/google";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { EXERCISES } from "../../lib/exercises";
+import { agreement, poolAgreement, summarizeAgreement, type SessionLabels } from "../../lib/history/annotations";
+import type { SessionLandmarks, SessionRecord } from "../../lib/history/sessionRecord";
+import { downloadBlob, downloadText, framesCsv, sessionBundle } from "../../lib/history/sessionExport";
+import {
+  deleteSession,
+  filterSessions,
+  getLandmarks,
+  getSessions,
+  historySupported,
+  listLabels,
+  listSessions,
+  type SessionListing,
+} from "../../lib/history/sessionStore";
+
+const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `<input type="date">` values are local calendar days. */
+const dayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const dayEnd = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() + DAY_MS - 1 : undefined);
+
+const formatDuration = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+export default function HistoryPage() {
+  const [exerciseId, setExerciseId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [allSessions, setAllSessions] = useState<SessionListing[] | null>(null);
+  const [labels, setLabels] = useState<SessionLabels[]>([]);
+  /** Full records of the labelled sessions, which agreement needs. */
+  const [labelled, setLabelled] = useState<SessionRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!historySupported()) {
+      setError("This browser cannot store session history.");
+      return;
+    }
+    let cancelled = false;
+    listSessions()
+      .then((list) => {
+        if (!cancelled) setAllSessions(list);
+      })
+      .catch((e) => {
+        console.error("Loading history failed:", e);
+        if (!cancelled) setError("Could not load session history.");
+      });
+    listLabels()
+      .then(async (list) => {
+        const records = await getSessions(list.map((l) => l.sessionId));
+        if (cancelled) return;
+        setLabels(list);
+        setLabelled(records);
+      })
+      .catch((e) => console.error("Loading labels failed:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Filtering the listings in memory keeps typing in the filters from reading the database.
+  const sessions = useMemo(
+    () =>
+      allSessions &&
+      filterSessions(allSessions, { exerciseId: exerciseId || undefined, from: dayStart(from), to: dayEnd(to) }),
+    [allSessions, exerciseId, from, to]
+  );
+
+  /** Agreement with the hand labels over the labelled sessions among those shown. */
+  const dataset = useMemo(() => {
+    const shown = new Set((sessions ?? []).map((s) => s.id));
+    const bySession = new Map(labels.map((l) => [l.sessionId, l]));
+    const metrics = labelled.flatMap((r) => {
+      const l = bySession.get(r.id);
+      return l && shown.has(r.id) ? [agreement(r, l)] : [];
+    });
+    if (metrics.length === 0) return null;
+    const pooled = poolAgreement(metrics);
+    return { pooled, summary: summarizeAgreement(pooled) };
+  }, [sessions, labels, labelled]);
+
+  const remove = async (id: string) => {
+    setDeleteError(null);
+    try {
+      await deleteSession(id);
+    } catch (e) {
+      console.error("Deleting session failed:", e);
+      setDeleteError("Could not delete the session.");
+      return;
+    }
+    setAllSessions((prev) => prev?.filter((s) => s.id !== id) ?? null);
+    setLabels((prev) => prev.filter((l) => l.sessionId !== id));
+  };
+
+  const exportStem = () => `sessions_${new Date().toISOString().slice(0, 10)}`;
+
+  /** Full records, and their landmarks, are only read for an export. */
+  const exportShown = (list: SessionListing[], write: (records: SessionRecord[], landmarks: SessionLandmarks[]) => void) =>
+    getSessions(list.map((s) => s.id))
+      .then(async (records) =>
+        write(records, await Promise.all(records.map(async (r) => ({ sessionId: r.id, frames: await getLandmarks(r.id) }))))
+      )
+      .catch((e) => console.error("Loading sessions for export failed:", e));
+
+  return (
+    <main className={`${lexend.variable} font-sans min-h-screen bg-zinc-100 p-4 sm:p-6`}>
+      <div className="mx-auto max-w-5xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5">
+        <div className="mb-6 flex items-center justify-between">
+          <h1 className="text-2xl sm:text-3xl font-extrabold text-zinc-900">Session History</h1>
+          <Link href="/" className="rounded-2xl bg-indigo-600 px-5 py-2.5 text-white shadow hover:bg-indigo-700">
+            New Session
+          </Link>
+        </div>
+
+        <div className="mb-6 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="grid gap-1 text-sm text-zinc-600">
+            Exercise
+            <select
+              className="rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-black"
+              value={exerciseId}
+              onChange={(e) => setExerciseId(e.target.value)}
+            >
+              <option value="">All exercises</option>
+              {EXERCISES.map((ex) => (
+                <option key={ex.id} value={ex.id}>{ex.title}</option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-1 text-sm text-zinc-600">
+            From
+            <input
+              type="date"
+              className="rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-black"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </label>
+          <label className="grid gap-1 text-sm text-zinc-600">
+            To
+            <input
+              type="date"
+              className="rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-black"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {sessions && sessions.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-zinc-500">Export {sessions.length} shown:</span>
+            <button
+              type="button"
+              onClick={() =>
+                exportShown(sessions, (records, landmarks) =>
+                  downloadText(framesCsv(records, landmarks), `${exportStem()}_frames.csv`, "text/csv")
+                )
+              }
+              className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+            >
+              Frames CSV
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                exportShown(sessions, (records, landmarks) => downloadBlob(sessionBundle(records, landmarks), `${exportStem()}.zip`))
+              }
+              className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+            >
+              Bundle (.zip)
+            </button>
+          </div>
+        )}
+
+        {dataset && (
+          <section className="mb-6 rounded-2xl bg-zinc-50 p-4 ring-1 ring-black/5">
+            <h2 className="text-lg font-bold text-zinc-900">Agreement with Labels</h2>
+            <p className="mb-3 text-sm text-zinc-600">
+              {dataset.pooled.sessions} labelled {dataset.pooled.sessions === 1 ? "session" : "sessions"} among those shown.
+            </p>
+            <dl className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-sm">
+              <div>
+                <dt className="text-zinc-500">Mean |rep count error|</dt>
+                <dd className="font-semibold tabular-nums text-zinc-900">{dataset.summary.meanAbsRepCountError?.toFixed(2) ?? "—"}</dd>
+              </div>
+              <div>
+                <dt className="text-zinc-500">Phase boundaries found</dt>
+                <dd className="font-semibold tabular-nums text-zinc-900">
+                  {dataset.pooled.phaseOffsetsMs.length} / {dataset.pooled.phaseBoundaries}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-500">Median |phase offset|</dt>
+                <dd className="font-semibold tabular-nums text-zinc-900">
+                  {dataset.summary.medianAbsPhaseOffsetMs === null ? "—" : `${Math.round(dataset.summary.medianAbsPhaseOffsetMs)} ms`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-500">Violation precision</dt>
+                <dd className="font-semibold tabular-nums text-zinc-900">
+                  {dataset.summary.precision === null ? "—" : `${Math.round(dataset.summary.precision * 100)}%`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-zinc-500">Violation recall</dt>
+                <dd className="font-semibold tabular-nums text-zinc-900">
+                  {dataset.summary.recall === null ? "—" : `${Math.round(dataset.summary.recall * 100)}%`}
+                </dd>
+              </div>
+            </dl>
+          </section>
+        )}
+
+        {deleteError && <p className="mb-4 text-sm text-red-600">{deleteError}</p>}
+
+        {error ? (
+          <p className="text-center text-red-600">{error}</p>
+        ) : sessions === null ? (
+          <p className="text-center text-zinc-500">Loading…</p>
+        ) : sessions.length === 0 ? (
+          <p className="py-16 text-center text-zinc-500">No sessions recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-zinc-200 text-zinc-500">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Exercise</th>
+                  <th className="py-2 pr-4 font-medium">Duration</th>
+                  <th className="py-2 pr-4 font-medium">Reps</th>
+                  <th className="py-2 pr-4 font-medium">Form Violations</th>
+                  <th className="py-2 pr-4 font-medium">Cues</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="text-zinc-800">
+                {sessions.map((s) => (
+                  <tr key={s.id} className="border-b border-zinc-100">
+                    <td className="py-2 pr-4">
+                      <Link href={`/summary/${s.id}`} className="text-indigo-600 hover:underline">
+                        {new Date(s.startedAt).toLocaleString()}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4 font-semibold">{s.exerciseTitle}</td>
+                    <td className="py-2 pr-4">{formatDuration(s.durationMs)}</td>
+                    <td className="py-2 pr-4">{s.reps}</td>
+                    <td className="py-2 pr-4">{s.violations}</td>
+                    <td className="py-2 pr-4">{s.cues}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => remove(s.id)}
+                        className="rounded-md p-2 text-zinc-500 hover:text-red-600"
+                        aria-label="Delete session"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" aria-hidden>
+                          <path d="M6 18L18 6M6 6l12 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <style jsx global>{`
+        :root { --font-lexend: ${lexend.style.fontFamily}; }
+        .font-sans { font-family: var(--font-lexend), ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Noto Sans, Ubuntu, Cantarell, Helvetica Neue, Arial, "Apple Color Emoji", "Segoe UI Emoji"; }
+      `}</style>
+    </main>
+  );
+}
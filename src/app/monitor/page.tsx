@@ -2,130 +2,81 @@
 
 import { useEffect, useRef, useState, Suspense, useMemo } from "react";
 import { Lexend } from "next/font/google";
-import { useSearchParams } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import AnteriorBody from "../components/AnteriorBody";
 import PosteriorBody from "../components/PosteriorBody";
+import WearablePanel, { SimulatedMotors } from "../components/WearablePanel";
+import AsymmetryGauge from "../components/AsymmetryGauge";
+import CalibrationPanel from "../components/CalibrationPanel";
+import AudioSettingsPanel from "../components/AudioSettingsPanel";
+import AngleChart from "../components/AngleChart";
+import { findPhase, getExercise } from "../../lib/exercises";
+import { createCameraPipeline, poseStartProblem, type CameraId, type CameraPipeline } from "../../lib/pose/cameraPipeline";
+import { createSessionTracker, NO_PHASE, type SessionTracker } from "../../lib/pose/sessionTracker";
+import { drawJointArcs, drawPose } from "../../lib/pose/drawPose";
+import { emptyReadout, JOINT_ARCS } from "../../lib/pose/jointReadout";
+import { createFeedbackOutput } from "../../lib/haptics/feedbackOutput";
+import { isSimulated } from "../../lib/haptics/simulatedTransport";
+import { createTransport, type TransportKind } from "../../lib/haptics/transports";
+import { buildHoldRule, initialHoldRuntime, remainingMs, type HoldRuntime } from "../../lib/holdTracker";
+import { decodeFeedbackConfig, INTENSITY_LABEL, INTENT_COLOR, wantsFeedback } from "../../lib/feedbackConfig";
+import { asymmetryPhase, effectiveThreshold, type PolicyEvent } from "../../lib/feedbackPolicy";
+import { initialAsymmetry, type AsymmetryReading } from "../../lib/asymmetry";
+import { createAudioFeedback } from "../../lib/audio/audioFeedback";
+import { createSessionRecorder, type FinishedSession, type SessionRecorder, type SessionTrace } from "../../lib/history/sessionRecord";
+import { historySupported, saveSession, saveVideos } from "../../lib/history/sessionStore";
+import { createVideoRecorder, recordingSupported, type RecordedClip, type VideoRecorder } from "../../lib/history/videoRecorder";
+import { analyzeVideoFiles } from "../../lib/history/fileAnalysis";
+import { activationFor, colorForActivation } from "../../lib/activation";
+import {
+  createAudioPlayer,
+  DEFAULT_AUDIO_SETTINGS,
+  loadAudioSettings,
+  saveAudioSettings,
+  type AudioPlayer,
+  type AudioSettings,
+} from "../../lib/audio/audioPlayer";
+import {
+  calibratedConfig,
+  calibratedExercise,
+  clearCalibration,
+  loadCalibration,
+  saveCalibration,
+  type Calibration,
+} from "../../lib/calibration";
 
 const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
 
 type VideoDevice = { deviceId: string; label: string };
 
-const EXERCISE_TITLES: Record<string, string> = {
-  "lat-raise": "Lateral Raise",
-  "db-incline-fly": "Dumbbell Incline Fly",
-  "bench-press": "Bench Press",
-  "arnold-press": "Arnold Press",
-  "db-front-hold": "Dumbbell Front Hold",
-};
-
-const EXERCISE_THRESHOLDS = {
-  "lat-raise": {
-    shoulder: { min: 10, max: 90 },
-    elbow: { min: 150, max: 180 },
-  },
-  "db-incline-fly": {
-    shoulder: { min: 45, max: 180 },
-    elbow: { min: 150, max: 170 },
-  },
-};
-
-const EXERCISE_PHASES = {
-  "lat-raise": [
-    { name: "Lifting Phase (Concentric)", angle: { min: 16, max: 89 } },
-    { name: "Lowering Phase (Eccentric)", angle: { min: 16, max: 89 } },
-    { name: "Starting Position", angle: { min: 0, max: 15 } },
-  ],
-  "db-incline-fly": [
-    { name: "Setup/Start Position", angle: { min: 160, max: 180 } },
-    { name: "Descent Phase (Eccentric)", angle: { min: 91, max: 159 } },
-    { name: "Ascent Phase (Concentric)", angle: { min: 91, max: 159 } },
-  ],
-};
-
-const HEX = (s: string) => (s.startsWith("#") ? s : `#${s}`);
-const hexToRgb = (hex: string) => {
-  const h = HEX(hex).replace("#", "");
-  const b = h.length === 3 ? h.split("").map(x => x + x).join("") : h;
-  const num = parseInt(b, 16);
-  return { r: (num >> 16) & 255, g: (num >> 8) & 255, b: num & 255 };
-};
-const rgbToHex = (r: number, g: number, b: number) =>
-  `#${[r, g, b].map(v => v.toString(16).padStart(2, "0")).join("")}`;
-const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-const lerpColor = (aHex: string, bHex: string, t: number) => {
-  const a = hexToRgb(aHex), b = hexToRgb(bHex);
-  return rgbToHex(
-    Math.round(lerp(a.r, b.r, t)),
-    Math.round(lerp(a.g, b.g, t)),
-    Math.round(lerp(a.b, b.b, t)),
-  );
-};
-
-/** color legends for muscle actv
- * 0–19%: gray-300 (#d1d5db)
- * 20–39%: blue-300 (#93c5fd)
- * 40–59%: green-300 (#86efac)
- * 60–100%: orange-300 (#fdba74)
- * >100%: red-400 (#f87171)
- */
-const colorForActivation = (pct: number) => {
-  if (pct <= 0) return "#d1d5db";
-  if (pct > 100) return "#f87171";
-  const stops = [
-    { p: 0, c: "#d1d5db" },
-    { p: 20, c: "#93c5fd" },
-    { p: 40, c: "#86efac" },
-    { p: 60, c: "#fdba74" },
-    { p: 100, c: "#fdba74" },
-  ];
-  for (let i = 0; i < stops.length - 1; i++) {
-    const a = stops[i], b = stops[i + 1];
-    if (pct >= a.p && pct <= b.p) {
-      const t = (pct - a.p) / (b.p - a.p || 1);
-      return lerpColor(a.c, b.c, t);
-    }
-  }
-  return stops[stops.length - 1].c;
-};
-
-async function ensureMPLoaded() {
-  const win: any = window as any;
-  if (win.__mpLoaded) return;
-  const loadScript = (src: string) =>
-    new Promise<void>((resolve, reject) => {
-      const s = document.createElement("script");
-      s.src = src;
-      s.async = true;
-      s.crossOrigin = "anonymous";
-      s.onload = () => resolve();
-      s.onerror = reject;
-      document.body.appendChild(s);
-    });
-  await loadScript("https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils@0.3/drawing_utils.js");
-  await loadScript("https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.4/pose.js");
-  win.__mpLoaded = true;
-}
-
-const calculateAngle = (A: any, B: any, C: any) => {
-  if (!A || !B || !C) return 0;
-  const a = B.x - A.x;
-  const b = B.y - A.y;
-  const c = B.x - C.x;
-  const d = B.y - C.y;
-  const angle = Math.atan2(d, c) - Math.atan2(b, a);
-  const degrees = Math.abs(angle * 180.0 / Math.PI);
-  return degrees > 180 ? 360 - degrees : degrees;
-};
+const UI_REFRESH_MS = 100;
+const NO_READOUT = emptyReadout();
+const POSE_OPTIONS = { model: "heavy", minDetectionConfidence: 0.3, minTrackingConfidence: 0.3 } as const;
+/** Camera `<select>` value that picks a video file instead of a device. */
+const FILE_SOURCE = "file";
+
+const FileTileLabel = ({ file }: { file: File }) => (
+  <div className="absolute inset-0 grid place-items-center bg-zinc-200 px-4 text-center text-sm text-zinc-700">
+    <div>
+      <p className="font-semibold break-all">{file.name}</p>
+      <p className="text-xs text-zinc-500">Analysed frame by frame with Analyze Video</p>
+    </div>
+  </div>
+);
 
 function MonitorInner() {
+  const router = useRouter();
   const sp = useSearchParams();
 
   const exerciseId = sp.get("exercise") || "";
   const musclesRaw = decodeURIComponent(sp.get("muscles") || "");
   const phasesRaw = decodeURIComponent(sp.get("phases") || "");
   const intensityRaw = decodeURIComponent(sp.get("intensity") || "");
+  const feedbackRaw = decodeURIComponent(sp.get("feedback") || "");
 
-  const exerciseTitle = EXERCISE_TITLES[exerciseId] || "—";
+  const exercise = getExercise(exerciseId);
+  const exerciseTitle = exercise?.title || "—";
 
   const initialMuscles = useMemo(
     () => (musclesRaw ? musclesRaw.split(",").map(m => m.trim()).filter(Boolean) : []),
@@ -139,13 +90,69 @@ function MonitorInner() {
     () => intensityRaw ? intensityRaw.split(",").map(i => Number(i.trim())) : [],
     [intensityRaw]
   );
+  const feedbackConfig = useMemo(
+    () => decodeFeedbackConfig(feedbackRaw, phaseList, intensityList),
+    [feedbackRaw, phaseList, intensityList]
+  );
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  useEffect(() => {
+    setCalibration(loadCalibration(exerciseId));
+  }, [exerciseId]);
+  const tunedExercise = useMemo(() => calibratedExercise(exercise, calibration), [exercise, calibration]);
+  const tunedExerciseRef = useRef(tunedExercise);
+  tunedExerciseRef.current = tunedExercise;
+  const activeConfig = useMemo(() => calibratedConfig(feedbackConfig, calibration), [feedbackConfig, calibration]);
+
+  const handleSaveCalibration = (next: Calibration | null) => {
+    if (next) saveCalibration(next);
+    else clearCalibration(exerciseId);
+    setCalibration(next);
+  };
+
+  const [transportKind, setTransportKind] = useState<TransportKind>("simulated");
+  const hapticTransport = useMemo(() => createTransport(transportKind), [transportKind]);
+  const [lastCue, setLastCue] = useState<PolicyEvent | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [liveTrace, setLiveTrace] = useState<SessionTrace | null>(null);
+  const videoRecorderRef = useRef<VideoRecorder | null>(null);
+  const [recordVideo, setRecordVideo] = useState(false);
+  const [videoFiles, setVideoFiles] = useState<Partial<Record<CameraId, File>>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileTargetRef = useRef<CameraId>("front");
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const recordVideoRef = useRef(recordVideo);
+  recordVideoRef.current = recordVideo;
+
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [audioPlayer, setAudioPlayer] = useState<AudioPlayer | null>(null);
+  useEffect(() => {
+    const settings = loadAudioSettings();
+    const player = createAudioPlayer(settings);
+    setAudioSettings(settings);
+    setAudioPlayer(player);
+    return () => player.close();
+  }, []);
+
+  const handleAudioSettings = (next: AudioSettings) => {
+    setAudioSettings(next);
+    saveAudioSettings(next);
+    audioPlayer?.setSettings(next);
+  };
+
+  useEffect(() => {
+    return () => {
+      hapticTransport.disconnect();
+    };
+  }, [hapticTransport]);
 
   const [showPoseOverlay, setShowPoseOverlay] = useState(false);
   const [showMediaPipeOverlay, setShowMediaPipeOverlay] = useState(true);
   const overlayImageCache = useRef<Record<string, HTMLImageElement>>({});
   const [phaseCompleteText, setPhaseCompleteText] = useState('');
 
-  const tutorialSrc = exerciseId ? `/videos/tutorial-${exerciseId}.mp4` : "";
+  const tutorialSrc = exercise?.tutorial ?? "";
 
   const [videoDevices, setVideoDevices] = useState<VideoDevice[]>([]);
   const [frontCam, setFrontCam] = useState<string>("");
@@ -159,79 +166,147 @@ function MonitorInner() {
   const canvasSideRef = useRef<HTMLCanvasElement>(null);
   const modalCanvasRef = useRef<HTMLCanvasElement>(null);
 
-  const mpPoseRef = useRef<any>(null);
-  const mpRafRef = useRef<number | null>(null);
-
-  const mpPoseFrontRef = useRef<any>(null);
-  const mpPoseSideRef = useRef<any>(null);
-  const mpPoseModalRef = useRef<any>(null);
-  const rafFrontRef = useRef<number | null>(null);
-  const rafSideRef = useRef<number | null>(null);
-  const rafModalRef = useRef<number | null>(null);
+  const [session, setSession] = useState<{ cameras: Record<CameraId, CameraPipeline>; tracker: SessionTracker } | null>(null);
+  const [poseProblem, setPoseProblem] = useState<string | null>(null);
+  /** Bumped to replace pipelines that finishing a session closed, when the page stays open. */
+  const [sessionRun, setSessionRun] = useState(0);
+  /** Bumped to start the working set afresh, e.g. once a calibration warm-up is over. */
+  const [workingSet, setWorkingSet] = useState(0);
+  const [unsaved, setUnsaved] = useState<{ finished: FinishedSession; clips: Promise<RecordedClip[]> } | null>(null);
 
   const [selectedMuscles, setSelectedMuscles] = useState<string[]>([]);
   const [reps, setReps] = useState(0);
   const [duration, setDuration] = useState(0);
   const [progressWidth, setProgressWidth] = useState(0);
 
-  const activationPct = useMemo(() => {
-    // const byTime = (duration / 60) * 100;
-    const byReps = (reps / 12) * 100;
-    return Math.max(byReps);
-  }, [duration, reps]);
+  const holdRule = useMemo(() => buildHoldRule(exercise), [exercise]);
+  const [hold, setHold] = useState<HoldRuntime>(initialHoldRuntime());
+  const [asymmetry, setAsymmetry] = useState<AsymmetryReading>(initialAsymmetry().reading);
+
+  const activationPct = useMemo(() => activationFor(holdRule, reps, hold), [reps, holdRule, hold]);
 
   const heatColor = useMemo(() => colorForActivation(activationPct), [activationPct]);
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isCompletionDialogOpen, setIsCompletionDialogOpen] = useState(false);
   const [modalName, setModalName] = useState("");
-  const [modalTarget, setModalTarget] = useState<"front" | "side" | null>(null);
-
-  const [leftShoulderAngle, setLeftShoulderAngle] = useState(0);
-  const [rightShoulderAngle, setRightShoulderAngle] = useState(0);
-  const [leftShoulderPos, setLeftShoulderPos] = useState({ x: 0, y: 0, visible: false });
-  const [rightShoulderPos, setRightShoulderPos] = useState({ x: 0, y: 0, visible: false });
+  const [modalTarget, setModalTarget] = useState<CameraId | null>(null);
 
-  const [leftElbowAngle, setLeftElbowAngle] = useState(0);
-  const [rightElbowAngle, setRightElbowAngle] = useState(0);
-  const [leftElbowPos, setLeftElbowPos] = useState({ x: 0, y: 0, visible: false });
-  const [rightElbowPos, setRightElbowPos] = useState({ x: 0, y: 0, visible: false });
+  const [readout, setReadout] = useState(NO_READOUT);
 
-  const [leftShoulderCorrect, setLeftShoulderCorrect] = useState(true);
-  const [rightShoulderCorrect, setRightShoulderCorrect] = useState(true);
-  const [leftElbowCorrect, setLeftElbowCorrect] = useState(true);
-  const [rightElbowCorrect, setRightElbowCorrect] = useState(true);
-
-  const [currentPhase, setCurrentPhase] = useState("—");
+  const [currentPhase, setCurrentPhase] = useState(NO_PHASE);
+  const asymmetryThreshold = useMemo(() => {
+    const judge = asymmetryPhase(activeConfig, currentPhase);
+    return judge ? effectiveThreshold(judge[1]) : null;
+  }, [activeConfig, currentPhase]);
   const lastPhaseRef = useRef('');
 
   const streamFrontRef = useRef<MediaStream | null>(null);
   const streamSideRef = useRef<MediaStream | null>(null);
 
-  const repStateRef = useRef<'start' | 'lifting' | 'peak' | 'lowering' | 'descending' | 'bottom' | 'ascending'>('start');
+  // The pose workers are heavy to load, so they live for the whole page; calibration only re-tunes
+  // the tracker and recorder below.
+  useEffect(() => {
+    const cameras: Record<CameraId, CameraPipeline> = {
+      front: createCameraPipeline({ camera: "front", video: () => videoFrontRef.current, pose: POSE_OPTIONS }),
+      side: createCameraPipeline({ camera: "side", video: () => videoSideRef.current, pose: POSE_OPTIONS }),
+    };
+    const tracker = createSessionTracker(cameras, tunedExerciseRef.current);
+    setSession({ cameras, tracker });
+    return () => {
+      tracker.close();
+      cameras.front.close();
+      cameras.side.close();
+    };
+  }, [sessionRun]);
+
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    poseStartProblem(Object.values(session.cameras)).then((problem) => {
+      if (!cancelled) setPoseProblem(problem);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const id = setInterval(() => {
+      const analysis = session.tracker.latest();
+      setReps(analysis.reps);
+      setCurrentPhase(analysis.phase);
+      setHold(analysis.hold);
+      setAsymmetry(analysis.asymmetry);
+      setReadout(modalTarget ? analysis.readouts[modalTarget] : NO_READOUT);
+    }, UI_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [session, modalTarget]);
   
-  const phaseToFilename: Record<string, string> = {
-    "Starting Position": "starting_position",
-    "Lifting Phase (Concentric)": "lifting_phase_concentric",
-    "Lowering Phase (Eccentric)": "lowering_phase_eccentric",
-    "Setup/Start Position": "setup_start_position",
-    "Descent Phase (Eccentric)": "descent_phase_eccentric",
-    "Ascent Phase (Concentric)": "ascent_phase_concentric",
+  useEffect(() => {
+    if (!session) return;
+    const output = createFeedbackOutput(hapticTransport, tunedExercise?.thresholds ?? {}, activeConfig);
+    const audio = audioPlayer ? createAudioFeedback(audioPlayer, tunedExercise, activeConfig) : null;
+    const unsubscribeCues = output.subscribe((event) => {
+      setLastCue(event);
+      audio?.cue(event);
+      recorderRef.current?.cue(event);
+    });
+    const unsubscribe = session.tracker.subscribe((analysis) => {
+      output.update(analysis);
+      audio?.update(analysis);
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeCues();
+    };
+  }, [session, hapticTransport, audioPlayer, tunedExercise, activeConfig]);
+
+  useEffect(() => {
+    if (!session) return;
+    const recorder = createSessionRecorder(tunedExerciseRef.current);
+    recorderRef.current = recorder;
+    setLiveTrace(recorder.trace());
+    // Video belongs to the same session record, so it restarts along with it.
+    const video = recordingSupported() ? createVideoRecorder() : null;
+    videoRecorderRef.current = video;
+    if (video && recordVideoRef.current) recordStreams(video);
+    const unsubscribe = session.tracker.subscribe(recorder.add);
+    return () => {
+      unsubscribe();
+      if (recorderRef.current === recorder) recorderRef.current = null;
+      if (videoRecorderRef.current === video) videoRecorderRef.current = null;
+      video?.end();
+    };
+  }, [session, workingSet]);
+
+  const startWorkingSet = () => {
+    session?.tracker.reset();
+    setDuration(0);
+    setWorkingSet((n) => n + 1);
   };
 
   useEffect(() => {
-    if (!isModalOpen || !exerciseId) return;
-    const fileName = phaseToFilename[currentPhase] || "default";
-    const imagePath = `/images/${exerciseId}-${fileName}.png`;
-    
-    if (imagePath && !overlayImageCache.current[imagePath]) {
+    session?.tracker.setExercise(tunedExercise);
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.setThresholds(tunedExercise?.thresholds ?? {});
+    setLiveTrace(recorder.trace());
+  }, [session, tunedExercise]);
+
+  useEffect(() => {
+    if (!isModalOpen || !exercise) return;
+    for (const phase of exercise.phases) {
+      const imagePath = phase.overlay;
+      if (!imagePath || overlayImageCache.current[imagePath]) continue;
       const img = new Image();
       img.src = imagePath;
       img.onload = () => {
         overlayImageCache.current[imagePath] = img;
       };
     }
-  }, [isModalOpen, exerciseId, currentPhase]);
+  }, [isModalOpen, exercise]);
   
   useEffect(() => {
     if (lastPhaseRef.current !== currentPhase) {
@@ -254,6 +329,89 @@ function MonitorInner() {
 
   const stopStream = (s: MediaStream | null) => s?.getTracks().forEach(t => t.stop());
 
+  const recordStreams = (video: VideoRecorder) => {
+    if (streamFrontRef.current) video.record("front", streamFrontRef.current);
+    if (streamSideRef.current) video.record("side", streamSideRef.current);
+  };
+
+  const handleRecordVideo = (on: boolean) => {
+    setRecordVideo(on);
+    const video = videoRecorderRef.current;
+    if (!video) return;
+    if (on) recordStreams(video);
+    else video.end();
+  };
+
+  const handleSourceChange = (camera: CameraId, value: string) => {
+    if (value === FILE_SOURCE) {
+      fileTargetRef.current = camera;
+      fileInputRef.current?.click();
+      return;
+    }
+    setVideoFiles((prev) => {
+      const next = { ...prev };
+      delete next[camera];
+      return next;
+    });
+    if (camera === "front") setFrontCam(value);
+    else setSideCam(value);
+    // Picking the device that was already selected does not trigger the stream effect.
+    if (value === (camera === "front" ? frontCam : sideCam)) startStream(value, camera);
+  };
+
+  const handleFileChosen = (file: File | undefined) => {
+    if (!file) return;
+    const camera = fileTargetRef.current;
+    const ref = camera === "front" ? streamFrontRef : streamSideRef;
+    stopStream(ref.current);
+    ref.current = null;
+    const video = camera === "front" ? videoFrontRef.current : videoSideRef.current;
+    if (video) video.srcObject = null;
+    setVideoFiles((prev) => ({ ...prev, [camera]: file }));
+    setAnalysisError(null);
+  };
+
+  const restartLiveStreams = () => {
+    if (!videoFiles.front && frontCam) startStream(frontCam, "front");
+    if (!videoFiles.side && sideCam) startStream(sideCam, "side");
+  };
+
+  const handleAnalyzeFiles = async () => {
+    const sources = (Object.entries(videoFiles) as [CameraId, File][]).map(([camera, file]) => ({ camera, file }));
+    if (sources.length === 0) return;
+    // Live inference would compete with the analysis for the same CPU.
+    for (const ref of [streamFrontRef, streamSideRef]) {
+      stopStream(ref.current);
+      ref.current = null;
+    }
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setAnalysisError(null);
+    setAnalysisProgress(0);
+    try {
+      const { record, landmarks, clips } = await analyzeVideoFiles(sources, {
+        exercise: tunedExercise,
+        config: activeConfig,
+        meta: { muscles: selectedMuscles, phases: phaseList, feedback: activeConfig, calibrated: !!calibration },
+        pose: POSE_OPTIONS,
+        onProgress: setAnalysisProgress,
+        signal: controller.signal,
+      });
+      await saveSession(record, landmarks);
+      await saveVideos(record.id, clips).catch((e) => console.error("Saving video failed:", e));
+      router.push(`/summary/${record.id}`);
+    } catch (e) {
+      if (!(e instanceof DOMException && e.name === "AbortError")) {
+        console.error("Video analysis failed:", e);
+        setAnalysisError(e instanceof Error ? e.message : "Video analysis failed.");
+      }
+      restartLiveStreams();
+    } finally {
+      analysisAbortRef.current = null;
+      setAnalysisProgress(null);
+    }
+  };
+
   const startStream = async (deviceId: string, target: "front" | "side") => {
     if (!deviceId) return;
     try {
@@ -270,6 +428,7 @@ function MonitorInner() {
         streamSideRef.current = stream;
         if (videoSideRef.current) videoSideRef.current.srcObject = stream;
       }
+      if (recordVideoRef.current) videoRecorderRef.current?.record(target, stream);
 
       if (isModalOpen && modalTarget === target && modalVideoRef.current) {
         modalVideoRef.current.srcObject = stream;
@@ -296,27 +455,59 @@ function MonitorInner() {
   };
 
   const handleFinishSession = () => {
+    const finished = recorderRef.current?.finish({
+      muscles: selectedMuscles,
+      phases: phaseList,
+      feedback: activeConfig,
+      calibrated: !!calibration,
+      activationPct,
+    });
+    recorderRef.current = null;
+    const clips = videoRecorderRef.current?.finish() ?? Promise.resolve([]);
+    videoRecorderRef.current = null;
+
     stopStream(streamFrontRef.current);
     stopStream(streamSideRef.current);
-    if (rafFrontRef.current) cancelAnimationFrame(rafFrontRef.current);
-    if (rafSideRef.current) cancelAnimationFrame(rafSideRef.current);
-    if (rafModalRef.current) cancelAnimationFrame(rafModalRef.current);
-
-    if (mpPoseFrontRef.current?.close) {
-        try { mpPoseFrontRef.current.close(); } catch { }
-    }
-    if (mpPoseSideRef.current?.close) {
-        try { mpPoseSideRef.current.close(); } catch { }
-    }
-    if (mpPoseModalRef.current?.close) {
-        try { mpPoseModalRef.current.close(); } catch { }
-    }
+    session?.tracker.reset();
+    session?.cameras.front.close();
+    session?.cameras.side.close();
+    audioPlayer?.clear();
 
     setReps(0);
+    setHold(initialHoldRuntime());
+    setAsymmetry(initialAsymmetry().reading);
     setDuration(0);
     setProgressWidth(0);
 
-    setIsCompletionDialogOpen(true);
+    // The summary page replaces the completion dialog whenever the session could be stored.
+    if (!finished || !historySupported()) {
+      restartSession();
+      setIsCompletionDialogOpen(true);
+      return;
+    }
+    // Stay usable on failure: a fresh session can start while the finished one waits for a retry.
+    storeSession(finished, clips).catch(restartSession);
+  };
+
+  const restartSession = () => {
+    setSessionRun((n) => n + 1);
+    restartLiveStreams();
+  };
+
+  /** Rejects after offering the record for a retry in the completion dialog. */
+  const storeSession = (finished: FinishedSession, clips: Promise<RecordedClip[]>) => {
+    const { record, landmarks } = finished;
+    setUnsaved(null);
+    return saveSession(record, landmarks)
+      .then(() => clips)
+      .then((c) => saveVideos(record.id, c).catch((e) => console.error("Saving video failed:", e)))
+      .then(() => router.push(`/summary/${record.id}`))
+      .catch((e) => {
+        console.error("Saving session failed:", e);
+        setUnsaved({ finished, clips });
+        setIsCompletionDialogOpen(true);
+        throw e;
+      });
   };
 
   useEffect(() => {
@@ -348,363 +539,73 @@ function MonitorInner() {
   useEffect(() => { if (sideCam) startStream(sideCam, "side"); }, [sideCam]);
 
   useEffect(() => {
-    if (!isModalOpen || !modalTarget) return;
+    if (!isModalOpen || !modalTarget || !session) return;
     let cancelled = false;
 
-    const drawAngleArc = (ctx: CanvasRenderingContext2D, center: any, point1: any, point2: any, color: string) => {
-      if (!center || !point1 || !point2) return;
-
-      const p1x = point1.x * ctx.canvas.width;
-      const p1y = point1.y * ctx.canvas.height;
-      const cx = center.x * ctx.canvas.width;
-      const cy = center.y * ctx.canvas.height;
-      const p2x = point2.x * ctx.canvas.width;
-      const p2y = point2.y * ctx.canvas.height;
-
-      const a1 = Math.atan2(p1y - cy, p1x - cx);
-      const a2 = Math.atan2(p2y - cy, p2x - cx);
-
-      ctx.beginPath();
-      let angleDiff = a2 - a1;
-      if (angleDiff < 0) angleDiff += 2 * Math.PI;
-
-      if (angleDiff > Math.PI) {
-        ctx.arc(cx, cy, 30, a1, a2, true);
-      } else {
-        ctx.arc(cx, cy, 30, a1, a2, false);
-      }
-
-      ctx.lineWidth = 3;
-      ctx.strokeStyle = color;
-      ctx.stroke();
-    };
-
     (async () => {
-      await ensureMPLoaded();
-      if (cancelled) return;
-
       const stream = modalTarget === "front" ? streamFrontRef.current : streamSideRef.current;
-      if (modalVideoRef.current && stream) {
+      if (modalVideoRef.current && stream && !cancelled) {
         modalVideoRef.current.srcObject = stream;
         await modalVideoRef.current.play?.();
       }
+    })();
 
-      const win: any = window as any;
-      const Pose = win.Pose;
-      const MP = win;
-
-      const pose = new Pose({
-        locateFile: (file: string) =>
-          `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${MP.VERSION}/${file}`
-      });
-      pose.setOptions({
-        selfieMode: true,
-        modelComplexity: 2,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: true,
-        minDetectionConfidence: 0.3,
-        minTrackingConfidence: 0.3,
-      });
-
-      const checkForm = (angle: number, threshold: { min: number, max: number }) => {
-        return angle >= threshold.min && angle <= threshold.max;
-      };
-
-      const updateElbowAngles = (landmarks: any, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
-        if (!landmarks) return;
-        const leftShoulder = landmarks[MP.POSE_LANDMARKS.LEFT_SHOULDER];
-        const leftElbow = landmarks[MP.POSE_LANDMARKS.LEFT_ELBOW];
-        const leftWrist = landmarks[MP.POSE_LANDMARKS.LEFT_WRIST];
-        const rightShoulder = landmarks[MP.POSE_LANDMARKS.RIGHT_SHOULDER];
-        const rightElbow = landmarks[MP.POSE_LANDMARKS.RIGHT_ELBOW];
-        const rightWrist = landmarks[MP.POSE_LANDMARKS.RIGHT_WRIST];
-
-        let lAngle = 0, rAngle = 0;
-        let lPos = { x: 0, y: 0, visible: false };
-        let rPos = { x: 0, y: 0, visible: false };
-        let lCorrect = true, rCorrect = true;
-
-        const elbowThreshold = EXERCISE_THRESHOLDS[exerciseId as keyof typeof EXERCISE_THRESHOLDS]?.elbow;
-
-        if (leftShoulder && leftElbow && leftWrist && leftElbow.visibility > 0.5) {
-          lAngle = calculateAngle(leftShoulder, leftElbow, leftWrist);
-          lPos = {
-            x: leftElbow.x * canvas.width,
-            y: leftElbow.y * canvas.height,
-            visible: true
-          };
-          if (elbowThreshold) lCorrect = checkForm(lAngle, elbowThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, leftElbow, leftShoulder, leftWrist, lCorrect ? '#00FF00' : '#FF0000');
-        }
-        if (rightShoulder && rightElbow && rightWrist && rightElbow.visibility > 0.5) {
-          rAngle = calculateAngle(rightShoulder, rightElbow, rightWrist);
-          rPos = {
-            x: rightElbow.x * canvas.width,
-            y: rightElbow.y * canvas.height,
-            visible: true
-          };
-          if (elbowThreshold) rCorrect = checkForm(rAngle, elbowThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, rightElbow, rightShoulder, rightWrist, rCorrect ? '#00FF00' : '#FF0000');
-        }
-
-        if (modalTarget === 'side') {
-          if (lPos.visible && !rPos.visible) {
-            rPos.visible = false;
-            rAngle = 0;
-            rCorrect = true;
-          } else if (rPos.visible && !lPos.visible) {
-            lPos.visible = false;
-            lAngle = 0;
-            lCorrect = true;
-          } else if (lPos.visible && rPos.visible) {
-            if (leftElbow.visibility > rightElbow.visibility) {
-              rPos.visible = false;
-              rAngle = 0;
-              rCorrect = true;
-            } else {
-              lPos.visible = false;
-              lAngle = 0;
-              lCorrect = true;
-            }
-          }
-        }
-        setLeftElbowAngle(lAngle);
-        setRightElbowAngle(rAngle);
-        setLeftElbowPos(lPos);
-        setRightElbowPos(rPos);
-        setLeftElbowCorrect(lCorrect);
-        setRightElbowCorrect(rCorrect);
-      };
-
-      const updateShoulderAngles = (landmarks: any, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
-        if (!landmarks) return;
-        const leftHip = landmarks[MP.POSE_LANDMARKS.LEFT_HIP];
-        const leftShoulder = landmarks[MP.POSE_LANDMARKS.LEFT_SHOULDER];
-        const leftElbow = landmarks[MP.POSE_LANDMARKS.LEFT_ELBOW];
-        const rightHip = landmarks[MP.POSE_LANDMARKS.RIGHT_HIP];
-        const rightShoulder = landmarks[MP.POSE_LANDMARKS.RIGHT_SHOULDER];
-        const rightElbow = landmarks[MP.POSE_LANDMARKS.RIGHT_ELBOW];
-
-        let lAngle = 0, rAngle = 0;
-        let lPos = { x: 0, y: 0, visible: false };
-        let rPos = { x: 0, y: 0, visible: false };
-        let lCorrect = true, rCorrect = true;
-        
-        const shoulderThreshold = EXERCISE_THRESHOLDS[exerciseId as keyof typeof EXERCISE_THRESHOLDS]?.shoulder;
-        
-        if (leftHip && leftShoulder && leftElbow && leftShoulder.visibility > 0.5) {
-          lAngle = calculateAngle(leftHip, leftShoulder, leftElbow);
-          lPos = {
-            x: leftShoulder.x * canvas.width,
-            y: leftShoulder.y * canvas.height,
-            visible: true
-          };
-          if (shoulderThreshold) lCorrect = checkForm(lAngle, shoulderThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, leftShoulder, leftHip, leftElbow, lCorrect ? '#00FF00' : '#FF0000');
-        }
-        if (rightHip && rightShoulder && rightElbow && rightShoulder.visibility > 0.5) {
-          rAngle = calculateAngle(rightHip, rightShoulder, rightElbow);
-          rPos = {
-            x: rightShoulder.x * canvas.width,
-            y: rightShoulder.y * canvas.height,
-            visible: true
-          };
-          if (shoulderThreshold) rCorrect = checkForm(rAngle, shoulderThreshold);
-          if (showMediaPipeOverlay) drawAngleArc(ctx, rightShoulder, rightHip, rightElbow, rCorrect ? '#00FF00' : '#FF0000');
-        }
+    // The modal is only a bigger view of the session; closing it leaves the analysis running.
+    const unsubscribe = session.tracker.subscribe(({ views, readouts, phase, updated }) => {
+      if (updated !== modalTarget) return;
+      const result = views[modalTarget];
+      const canvas = modalCanvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      const v = modalVideoRef.current;
+      if (!canvas || !ctx || !v) return;
+
+      const rect = v.getBoundingClientRect();
+      const w = Math.floor(rect.width);
+      const h = Math.floor(rect.height);
+      if (w && h && (canvas.width !== w || canvas.height !== h)) {
+        canvas.width = w;
+        canvas.height = h;
+      }
 
-        if (modalTarget === 'side') {
-          if (lPos.visible && !rPos.visible) {
-            rPos.visible = false;
-            rAngle = 0;
-            rCorrect = true;
-          } else if (rPos.visible && !lPos.visible) {
-            lPos.visible = false;
-            lAngle = 0;
-            lCorrect = true;
-          } else if (lPos.visible && rPos.visible) {
-            if (leftShoulder.visibility > rightShoulder.visibility) {
-              rPos.visible = false;
-              rAngle = 0;
-              rCorrect = true;
-            } else {
-              lPos.visible = false;
-              lAngle = 0;
-              lCorrect = true;
-            }
-          }
-        }
-        setLeftShoulderAngle(lAngle);
-        setRightShoulderAngle(rAngle);
-        setLeftShoulderPos(lPos);
-        setRightShoulderPos(rPos);
-        setLeftShoulderCorrect(lCorrect);
-        setRightShoulderCorrect(rCorrect);
-      };
-      
-      const handlePhaseAndRepTracking = (landmarks: any) => {
-        const leftShoulder = landmarks[MP.POSE_LANDMARKS.LEFT_SHOULDER];
-        const rightShoulder = landmarks[MP.POSE_LANDMARKS.RIGHT_SHOULDER];
-        const leftHip = landmarks[MP.POSE_LANDMARKS.LEFT_HIP];
-        const rightHip = landmarks[MP.POSE_LANDMARKS.RIGHT_HIP];
-        const leftElbow = landmarks[MP.POSE_LANDMARKS.LEFT_ELBOW];
-        const rightElbow = landmarks[MP.POSE_LANDMARKS.RIGHT_ELBOW];
-
-        if (!leftShoulder || !rightShoulder || !leftHip || !rightHip || !leftElbow || !rightElbow) {
-            setCurrentPhase("—");
-            return;
-        }
+      ctx.save();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-        const lAngle = calculateAngle(leftHip, leftShoulder, leftElbow);
-        const rAngle = calculateAngle(rightHip, rightShoulder, rightElbow);
-        const angleToTrack = leftShoulder.visibility > rightShoulder.visibility ? lAngle : rAngle;
-
-        switch (exerciseId) {
-            case "lat-raise": {
-                if (angleToTrack > 85 && repStateRef.current === 'lifting') {
-                    repStateRef.current = 'peak';
-                    setCurrentPhase("Lifting Phase (Concentric)");
-                } else if (angleToTrack <= 30 && repStateRef.current === 'lowering') {
-                    setReps(prevReps => prevReps + 1);
-                    repStateRef.current = 'start';
-                    setCurrentPhase("Starting Position");
-                } else if (angleToTrack > 30 && angleToTrack < 85 && repStateRef.current === 'start') {
-                    repStateRef.current = 'lifting';
-                    setCurrentPhase("Lifting Phase (Concentric)");
-                } else if (angleToTrack < 85 && repStateRef.current === 'peak') {
-                    repStateRef.current = 'lowering';
-                    setCurrentPhase("Lowering Phase (Eccentric)");
-                }
-                break;
-            }
-            case "db-incline-fly": {
-                if (angleToTrack <= 95 && repStateRef.current === 'descending') {
-                    repStateRef.current = 'bottom';
-                    setCurrentPhase("Descent Phase (Eccentric)");
-                } else if (angleToTrack >= 160 && repStateRef.current === 'ascending') {
-                    setReps(prevReps => prevReps + 1);
-                    repStateRef.current = 'start';
-                    setCurrentPhase("Setup/Start Position");
-                } else if (angleToTrack < 160 && angleToTrack > 95 && repStateRef.current === 'start') {
-                    repStateRef.current = 'descending';
-                    setCurrentPhase("Descent Phase (Eccentric)");
-                } else if (angleToTrack > 95 && repStateRef.current === 'bottom') {
-                    repStateRef.current = 'ascending';
-                    setCurrentPhase("Ascent Phase (Concentric)");
-                }
-                break;
-            }
-            default:
-                setCurrentPhase("—");
-                break;
-        }
-      };
-      
-      const onResults = (results: any) => {
-        const canvas = modalCanvasRef.current;
-        const ctx = canvas?.getContext("2d");
-        const v = modalVideoRef.current;
-        if (!canvas || !ctx || !v) return;
+      const imagePath = findPhase(exercise, phase)?.overlay;
+      const imageToDraw = imagePath ? overlayImageCache.current[imagePath] : null;
+      if (showPoseOverlay && imageToDraw) {
+        ctx.globalAlpha = 0.3;
+        ctx.drawImage(imageToDraw, 0, 0, canvas.width, canvas.height);
+        ctx.globalAlpha = 1;
+      }
 
-        if (v) {
-          const rect = v.getBoundingClientRect();
-          const w = Math.floor(rect.width);
-          const h = Math.floor(rect.height);
-          if (w && h && (canvas.width !== w || canvas.height !== h)) {
-            canvas.width = w;
-            canvas.height = h;
-          }
-        }
-        
-        ctx.save();
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        if (results.poseLandmarks) {
-          handlePhaseAndRepTracking(results.poseLandmarks);
-        }
+      if (showMediaPipeOverlay && result) {
+        drawJointArcs(ctx, result.landmarks, readouts[modalTarget]);
+        drawPose(ctx, result.landmarks);
+      }
 
-        const fileName = phaseToFilename[currentPhase] || "default";
-        const imagePath = `/images/${exerciseId}-${fileName}.png`;
-        const imageToDraw = imagePath ? overlayImageCache.current[imagePath] : null;
-        if (showPoseOverlay && imageToDraw) {
-            ctx.globalAlpha = 0.3;
-            ctx.drawImage(imageToDraw, 0, 0, canvas.width, canvas.height);
-        }
-        
-        if (showMediaPipeOverlay && results.poseLandmarks) {
-          const landmarks = results.poseLandmarks;
-          updateShoulderAngles(landmarks, canvas, ctx);
-          updateElbowAngles(landmarks, canvas, ctx);
-          MP.drawConnectors(ctx, landmarks, MP.POSE_CONNECTIONS, {
-              visibilityMin: 0.65,
-              color: 'white'
-          });
-          const left = Object.values(MP.POSE_LANDMARKS_LEFT).map((i: any) => landmarks[i]);
-          const right = Object.values(MP.POSE_LANDMARKS_RIGHT).map((i: any) => landmarks[i]);
-          const neutral = Object.values(MP.POSE_LANDMARKS_NEUTRAL).map((i: any) => landmarks[i]);
-          MP.drawLandmarks(ctx, left, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(255,138,0)' });
-          MP.drawLandmarks(ctx, right, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(0,217,231)' });
-          MP.drawLandmarks(ctx, neutral, { visibilityMin: 0.65, color: 'white', fillColor: 'white' });
-        }
-        
-        ctx.restore();
-      };
-      
-      pose.onResults(onResults);
-      mpPoseModalRef.current = pose;
-
-      const pump = async () => {
-        if (cancelled) return;
-        const v = modalVideoRef.current;
-        if (v && v.readyState >= 2) {
-          await mpPoseModalRef.current.send({ image: v });
-        }
-        rafModalRef.current = requestAnimationFrame(pump);
-      };
-      rafModalRef.current = requestAnimationFrame(pump);
-    })();
+      ctx.restore();
+    });
 
     return () => {
       cancelled = true;
-      if (rafModalRef.current) cancelAnimationFrame(rafModalRef.current);
-      rafModalRef.current = null;
-      if (mpPoseModalRef.current?.close) {
-        try { mpPoseModalRef.current.close(); } catch { }
-      }
-      mpPoseModalRef.current = null;
+      unsubscribe();
     };
-  }, [isModalOpen, modalTarget, exerciseId, currentPhase, showPoseOverlay, showMediaPipeOverlay]);
+  }, [isModalOpen, modalTarget, session, exercise, showPoseOverlay, showMediaPipeOverlay]);
 
   useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      await ensureMPLoaded();
-      if (cancelled) return;
-
-      const win: any = window as any;
-      const Pose = win.Pose;
-      const MP = win;
-      const pose = new Pose({
-        locateFile: (file: string) =>
-          `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${MP.VERSION}/${file}`
-      });
-      pose.setOptions({
-        selfieMode: true,
-        modelComplexity: 1,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
-
-      const onResults = (results: any) => {
-        const canvas = canvasSideRef.current;
+    if (!session) return;
+    const tiles = [
+      { pipeline: session.cameras.front, video: videoFrontRef, canvas: canvasFrontRef },
+      { pipeline: session.cameras.side, video: videoSideRef, canvas: canvasSideRef },
+    ];
+
+    const unsubscribes = tiles.map(tile =>
+      tile.pipeline.subscribe(result => {
+        const canvas = tile.canvas.current;
         const ctx = canvas?.getContext("2d");
         if (!canvas || !ctx) return;
 
-        const v = videoSideRef.current;
+        const v = tile.video.current;
         if (v) {
           const w = v.clientWidth || 0;
           const h = v.clientHeight || 0;
@@ -716,41 +617,14 @@ function MonitorInner() {
 
         ctx.save();
         ctx.clearRect(0, 0, canvas.width, canvas.height);
-        if (results.poseLandmarks) {
-          MP.drawConnectors(ctx, results.poseLandmarks, MP.POSE_CONNECTIONS, {
-            visibilityMin: 0.65,
-            color: 'white'
-          });
-          const left = Object.values(MP.POSE_LANDMARKS_LEFT).map((i: any) => results.poseLandmarks[i]);
-          const right = Object.values(MP.POSE_LANDMARKS_RIGHT).map((i: any) => results.poseLandmarks[i]);
-          const neutral = Object.values(MP.POSE_LANDMARKS_NEUTRAL).map((i: any) => results.poseLandmarks[i]);
-          MP.drawLandmarks(ctx, left, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(255,138,0)' });
-          MP.drawLandmarks(ctx, right, { visibilityMin: 0.65, color: 'white', fillColor: 'rgb(0,217,231)' });
-          MP.drawLandmarks(ctx, neutral, { visibilityMin: 0.65, color: 'white', fillColor: 'white' });
+        if (result) {
+          drawPose(ctx, result.landmarks);
         }
         ctx.restore();
-      };
-
-      pose.onResults(onResults);
-      mpPoseSideRef.current = pose;
-
-      const pump = async () => {
-        if (cancelled) return;
-        const v = videoSideRef.current;
-        if (v && v.readyState >= 2) {
-          await mpPoseSideRef.current.send({ image: v });
-        }
-        rafSideRef.current = requestAnimationFrame(pump);
-      };
-      rafSideRef.current = requestAnimationFrame(pump);
-    })();
-
-    return () => {
-      cancelled = true;
-      if (rafSideRef.current) cancelAnimationFrame(rafSideRef.current);
-      rafSideRef.current = null;
-    };
-  }, []);
+      })
+    );
+    return () => unsubscribes.forEach(u => u());
+  }, [session]);
 
   useEffect(() => {
     const id = setInterval(() => {
@@ -760,9 +634,9 @@ function MonitorInner() {
   }, []); 
 
   useEffect(() => {
-    const newProgress = Math.min(100, (reps / 12) * 100);
+    const newProgress = Math.min(100, activationPct);
     setProgressWidth(newProgress);
-  }, [reps]);
+  }, [activationPct]);
 
   useEffect(() => {
     return () => {
@@ -781,6 +655,11 @@ function MonitorInner() {
     >
       <div className="mx-auto w-full max-w-screen-2xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5">
         <h1 className="text-2xl sm:text-3xl font-extrabold text-indigo-700 mb-6 text-center">Monitor Your Exercise</h1>
+          {poseProblem && (
+            <p className="mb-4 rounded-xl bg-red-50 p-3 text-center text-sm text-red-700 ring-1 ring-red-200" role="alert">
+              {poseProblem}
+            </p>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
             <div className="w-full">
               <div className="mb-2 flex items-center gap-2">
@@ -788,13 +667,15 @@ function MonitorInner() {
                 <div className="relative w-full">
                   <select
                     className="w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-black appearance-none pr-10"
-                    value={frontCam}
-                    onChange={e => setFrontCam(e.target.value)}
+                    value={videoFiles.front ? FILE_SOURCE : frontCam}
+                    onChange={e => handleSourceChange("front", e.target.value)}
+                    disabled={analysisProgress !== null}
                     aria-label="Select front camera"
                   >
                     {videoDevices.map(d => (
                       <option key={d.deviceId} value={d.deviceId}>{d.label || "Camera"}</option>
                     ))}
+                    <option value={FILE_SOURCE}>{videoFiles.front ? videoFiles.front.name : "File…"}</option>
                   </select>
                   <svg className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-black" viewBox="0 0 20 20" fill="currentColor" aria-hidden>
                     <path d="M5.23 7.21a.75.75 0 0 1 1.06.02L10 10.17l3.71-2.94a.75.75 0 1 1 .94 1.16l-4.24 3.36a.75.75 0 0 1-.94 0L5.21 8.39a.75.75 0 0 1 .02-1.18z" />
@@ -817,8 +698,9 @@ function MonitorInner() {
                   />
                   <canvas
                     ref={canvasFrontRef}
-                    className="absolute inset-0 pointer-events-none [scale-x-[-1]]"
+                    className="absolute inset-0 pointer-events-none"
                   />
+                  {videoFiles.front && <FileTileLabel file={videoFiles.front} />}
                 </button>
                 <div className={`absolute left-1/2 bottom-4 -translate-x-1/2 z-10 px-4 py-2 rounded-md font-semibold ${phaseCompleteText ? 'bg-white/20 backdrop-blur text-green-500' : 'hidden'}`}>
                   {phaseCompleteText}
@@ -832,13 +714,15 @@ function MonitorInner() {
                 <div className="relative w-full">
                   <select
                     className="w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm text-black appearance-none pr-10"
-                    value={sideCam}
-                    onChange={e => setSideCam(e.target.value)}
+                    value={videoFiles.side ? FILE_SOURCE : sideCam}
+                    onChange={e => handleSourceChange("side", e.target.value)}
+                    disabled={analysisProgress !== null}
                     aria-label="Select side camera"
                   >
                     {videoDevices.map(d => (
                       <option key={d.deviceId} value={d.deviceId}>{d.label || "Camera"}</option>
                     ))}
+                    <option value={FILE_SOURCE}>{videoFiles.side ? videoFiles.side.name : "File…"}</option>
                   </select>
                   <svg className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-black" viewBox="0 0 20 20" fill="currentColor" aria-hidden>
                     <path d="M5.23 7.21a.75.75 0 0 1 1.06.02L10 10.17l3.71-2.94a.75.75 0 1 1 .94 1.16l-4.24 3.36a.75.75 0 0 1-.94 0L5.21 8.39a.75.75 0 0 1 .02-1.18z" />
@@ -857,10 +741,11 @@ function MonitorInner() {
                   playsInline
                   muted
                 />
-                {/* <canvas
+                <canvas
                   ref={canvasSideRef}
-                  className="absolute inset-0 pointer-events-none [scale-x-[-1]]"
-                /> */}
+                  className="absolute inset-0 pointer-events-none"
+                />
+                {videoFiles.side && <FileTileLabel file={videoFiles.side} />}
                 <div className={`absolute left-1/2 bottom-4 -translate-x-1/2 z-10 px-4 py-2 rounded-md font-semibold ${phaseCompleteText ? 'bg-white/20 backdrop-blur text-green-500' : 'hidden'}`}>
                   {phaseCompleteText}
                 </div>
@@ -868,8 +753,8 @@ function MonitorInner() {
             </div>
             
             <div className="w-full">
-              <div className="mb-3 w-full text-center items-center gap-2">
-                <label className="text-xl  place-items-center px-3 py-3 text-zinc-900">Exercise Tutorial</label>
+              <div className="mb-2 min-h-[38px]">
+                <WearablePanel kind={transportKind} onKindChange={setTransportKind} transport={hapticTransport} />
               </div>
 
               <div className="relative w-full h-80 rounded-xl overflow-hidden bg-zinc-100 ring-1 ring-zinc-200">
@@ -892,6 +777,7 @@ function MonitorInner() {
                   </div>
                 )}
               </div>
+              <p className="mt-2 text-center text-sm text-zinc-600">Exercise Tutorial</p>
             </div>
           </div>
 
@@ -927,16 +813,92 @@ function MonitorInner() {
               <p className="font-bold text-gray-800 break-words">{selectedMuscles.join(", ") || "—"}</p>
             </div>
 
+            {exercise && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Calibration:</p>
+                <CalibrationPanel
+                  exercise={exercise}
+                  tracker={session?.tracker ?? null}
+                  calibration={calibration}
+                  onSave={handleSaveCalibration}
+                  onWarmUpEnd={startWorkingSet}
+                />
+              </div>
+            )}
             {phaseList.length > 0 && (
               <div>
-                <p className="text-sm font-medium text-gray-500">Selected Phases & Feedback Intensity:</p>
-                <div className="font-bold text-gray-800 break-words">
-                  {phaseList.map((phase, index) => (
-                    <p key={phase}>{phase}: {intensityList[index]}</p>
-                  ))}
+                <p className="text-sm font-medium text-gray-500">Selected Phases & Feedback:</p>
+                <div className="grid gap-2 break-words">
+                  {phaseList.map((phase) => {
+                    const f = activeConfig[phase];
+                    return (
+                      <div key={phase}>
+                        <p className="font-bold text-gray-800">
+                          {phase}: {INTENSITY_LABEL[f.intensity]}
+                          {wantsFeedback(f) && (
+                            <span
+                              className="ml-2 rounded-full px-2 py-0.5 text-xs font-semibold text-white"
+                              style={{ backgroundColor: INTENT_COLOR[f.intent] }}
+                            >
+                              {f.intent}
+                            </span>
+                          )}
+                        </p>
+                        {wantsFeedback(f) && (
+                          <p className="text-xs text-gray-600">
+                            {f.granularity} · {f.direction} · {f.trigger} &gt; {f.threshold}° ·{" "}
+                            {f.control === "User-Defined" ? `Sensitivity ${f.sensitivity}%` : f.control}
+                            {f.audio !== "Off" && ` · Audio: ${f.audio}`}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
+            {lastCue && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Last Cue:</p>
+                <p className="font-bold text-gray-800">
+                  <span
+                    className="mr-2 rounded-full px-2 py-0.5 text-xs font-semibold text-white"
+                    style={{ backgroundColor: lastCue.color }}
+                  >
+                    {lastCue.intent}
+                  </span>
+                  {JOINT_ARCS.find((j) => j.key === lastCue.joint)?.label} +{Math.round(lastCue.error)}°
+                </p>
+              </div>
+            )}
+            <div>
+              <p className="text-sm font-medium text-gray-500">Asymmetry:</p>
+              <AsymmetryGauge reading={asymmetry} threshold={asymmetryThreshold} />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Recording:</p>
+              <label className="mt-1 flex items-center gap-2 text-sm text-gray-800">
+                <input
+                  type="checkbox"
+                  checked={recordVideo}
+                  onChange={(e) => handleRecordVideo(e.target.checked)}
+                  disabled={!recordingSupported()}
+                  className="accent-indigo-600"
+                />
+                Record camera video with the session
+                {recordVideo && <span className="h-2 w-2 animate-pulse rounded-full bg-red-600" aria-label="Recording" />}
+              </label>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Audio Cues:</p>
+              <AudioSettingsPanel settings={audioSettings} onChange={handleAudioSettings} player={audioPlayer} />
+            </div>
+            {isSimulated(hapticTransport) && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Simulated Wearable:</p>
+                <SimulatedMotors device={hapticTransport} />
+              </div>
+            )}
             <div>
               <p className="text-sm font-medium text-gray-500">Progress:</p>
               <p className="font-bold text-gray-800 mb-2">
@@ -949,11 +911,71 @@ function MonitorInner() {
                 />
               </div>
             </div>
-            <div><p className="text-sm font-medium text-gray-500">Reps Count:</p><p className="font-bold text-gray-800">{reps}</p></div>
+            {holdRule ? (
+              <>
+                <div><p className="text-sm font-medium text-gray-500">Sets Held:</p><p className="font-bold text-gray-800">{hold.setsDone} / {holdRule.sets}</p></div>
+                <div>
+                  <p className="text-sm font-medium text-gray-500">Hold Remaining:</p>
+                  <p className="font-bold text-gray-800">
+                    {Math.ceil(remainingMs(holdRule, hold) / 1000)}s {hold.status === "paused" ? "(Paused)" : ""}
+                  </p>
+                </div>
+              </>
+            ) : (
+              <div><p className="text-sm font-medium text-gray-500">Reps Count:</p><p className="font-bold text-gray-800">{reps}</p></div>
+            )}
             <div><p className="text-sm font-medium text-gray-500">Duration:</p><p className="font-bold text-gray-800">{duration}s</p></div>
           </div>
         </div>
 
+        {liveTrace && (
+          <div className="mt-10">
+            <p className="mb-2 text-sm font-medium text-gray-500">Joint Angles:</p>
+            <AngleChart trace={liveTrace} exercise={tunedExercise} live />
+          </div>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="video/mp4,video/webm"
+          className="hidden"
+          onChange={(e) => {
+            handleFileChosen(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        {Object.keys(videoFiles).length > 0 && (
+          <div className="mt-10 grid justify-items-center gap-3">
+            {analysisProgress === null ? (
+              <button
+                type="button"
+                onClick={handleAnalyzeFiles}
+                disabled={!historySupported()}
+                className="rounded-2xl bg-indigo-600 px-12 py-4 text-white shadow hover:bg-indigo-700 disabled:opacity-60"
+              >
+                Analyze Video
+              </button>
+            ) : (
+              <div className="grid w-full max-w-md gap-2">
+                <p className="text-center text-sm text-gray-600">Analysing video… {Math.floor(analysisProgress * 100)}%</p>
+                <div className="h-2 w-full overflow-hidden rounded-full bg-zinc-200">
+                  <div className="h-2 bg-indigo-600" style={{ width: `${analysisProgress * 100}%` }} />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => analysisAbortRef.current?.abort()}
+                  className="justify-self-center rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+            {!historySupported() && <p className="text-sm text-red-600">This browser cannot store the analysed session.</p>}
+            {analysisError && <p className="text-sm text-red-600">{analysisError}</p>}
+          </div>
+        )}
+
         <div className="mt-10 flex justify-center">
           <button
             onClick={handleFinishSession}
@@ -1010,65 +1032,25 @@ function MonitorInner() {
                     className="absolute inset-0 pointer-events-none"
                   />
                   
-                  {leftShoulderPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${leftShoulderPos.x}px`,
-                        top: `${leftShoulderPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: leftShoulderCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>R-Shoulder: {Math.round(leftShoulderAngle)}°</p>
-                    </div>
-                  )}
-
-                  {rightShoulderPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${rightShoulderPos.x}px`,
-                        top: `${rightShoulderPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: rightShoulderCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>L-Shoulder: {Math.round(rightShoulderAngle)}°</p>
-                    </div>
-                  )}
-
-                  {leftElbowPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${leftElbowPos.x}px`,
-                        top: `${leftElbowPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: leftElbowCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>R-Elbow: {Math.round(leftElbowAngle)}°</p>
-                    </div>
-                  )}
-
-                  {rightElbowPos.visible && (
-                    <div
-                      className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
-                      style={{
-                        left: `${rightElbowPos.x}px`,
-                        top: `${rightElbowPos.y}px`,
-                        transform: 'translate(-50%, -150%)',
-                        textShadow: '1px 1px 2px #000',
-                        color: rightElbowCorrect ? '#00FF00' : '#FF0000'
-                      }}
-                    >
-                      <p>L-Elbow: {Math.round(rightElbowAngle)}°</p>
-                    </div>
-                  )}
+                  {showMediaPipeOverlay && JOINT_ARCS.map(j => {
+                    const r = readout[j.key];
+                    if (!r.visible) return null;
+                    return (
+                      <div
+                        key={j.key}
+                        className="absolute z-10 p-1 rounded-md text-white font-semibold text-lg"
+                        style={{
+                          left: `${r.x * 100}%`,
+                          top: `${r.y * 100}%`,
+                          transform: 'translate(-50%, -150%)',
+                          textShadow: '1px 1px 2px #000',
+                          color: r.correct ? '#00FF00' : '#FF0000'
+                        }}
+                      >
+                        <p>{j.label}: {Math.round(r.angle)}°</p>
+                      </div>
+                    );
+                  })}
                 </div>
               )}
               
@@ -1116,7 +1098,11 @@ function MonitorInner() {
 
               <div className="absolute left-1/2 bottom-4 -translate-x-1/2 z-10 px-3 py-1.5 rounded-md text-white bg-white/20 backdrop-blur font-semibold text-lg">
                 <p>Current Phase: {currentPhase}</p>
-                <p>Reps Count: {reps}</p>
+                {holdRule ? (
+                  <p>Hold: {Math.ceil(remainingMs(holdRule, hold) / 1000)}s left · Sets {hold.setsDone}/{holdRule.sets}</p>
+                ) : (
+                  <p>Reps Count: {reps}</p>
+                )}
               </div>
 
             </div>
@@ -1133,13 +1119,34 @@ function MonitorInner() {
               <div className="bg-white rounded-2xl p-8 max-w-sm w-full text-center shadow-xl">
                   <h2 className="text-3xl font-bold text-green-600 mb-4">Congratulations!</h2>
                   <p className="text-xl text-zinc-700">You've completed your exercise!</p>
-                  <button
-                      onClick={() => setIsCompletionDialogOpen(false)}
-                      className="mt-6 rounded-xl bg-indigo-600 px-6 py-3 text-white font-semibold shadow hover:bg-indigo-700"
-                      type="button"
-                  >
-                      Close
-                  </button>
+                  {unsaved && <p className="mt-3 text-sm text-red-600">The session could not be saved to history.</p>}
+                  <div className="mt-6 flex justify-center gap-3">
+                    {unsaved && (
+                      <button
+                          onClick={() => {
+                            setIsCompletionDialogOpen(false);
+                            storeSession(unsaved.finished, unsaved.clips).catch(() => {});
+                          }}
+                          className="rounded-xl bg-zinc-200 px-6 py-3 text-zinc-800 font-semibold hover:bg-zinc-300"
+                          type="button"
+                      >
+                          Retry Save
+                      </button>
+                    )}
+                    <Link
+                        href="/history"
+                        className="rounded-xl bg-zinc-200 px-6 py-3 text-zinc-800 font-semibold hover:bg-zinc-300"
+                    >
+                        History
+                    </Link>
+                    <button
+                        onClick={() => setIsCompletionDialogOpen(false)}
+                        className="rounded-xl bg-indigo-600 px-6 py-3 text-white font-semibold shadow hover:bg-indigo-700"
+                        type="button"
+                    >
+                        Close
+                    </button>
+                  </div>
               </div>
           </div>
       )}
@@ -6,36 +6,21 @@ import { useRouter, useSearchParams } from "next/navigation";
 import Stepper from "../components/Stepper";
 import AnteriorBody from "../components/AnteriorBody";
 import PosteriorBody from "../components/PosteriorBody";
+import { exerciseMuscles, getExercise } from "../../lib/exercises";
 
 const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
 
-type Exercise = { id: string; title: string; muscles: string; imageUrl: string };
-const EXERCISES: Exercise[] = [
-  { id: "db-front-hold", title: "Dumbbell Front Hold", muscles: "Shoulders, Traps", imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-front-raise/dumbbell-front-raise-800.avif" },
-  { id: "db-incline-fly", title: "Dumbbell Incline Fly", muscles: "Chest, Biceps", imageUrl: "https://static.strengthlevel.com/images/exercises/incline-dumbbell-fly/incline-dumbbell-fly-800.avif" },
-  { id: "bench-press", title: "Bench Press", muscles: "Chest, Shoulders, Triceps", imageUrl: "https://static.strengthlevel.com/images/exercises/bench-press/bench-press-800.avif" },
-  { id: "lat-raise", title: "Lateral Raise", muscles: "Shoulders", imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-lateral-raise/dumbbell-lateral-raise-800.avif" },
-  { id: "arnold-press", title: "Arnold Press", muscles: "Biceps, Triceps", imageUrl: "https://static.strengthlevel.com/images/exercises/arnold-press/arnold-press-800.avif" },
-];
-
 function MuscleInner() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const selectedExerciseId = searchParams.get("exercise") || "";
-  const selectedExercise = EXERCISES.find(ex => ex.id === selectedExerciseId);
+  const selectedExercise = getExercise(selectedExerciseId);
 
   const [selectedMuscles, setSelectedMuscles] = useState<string[]>([]);
 
   useEffect(() => {
-    const muscleMap: Record<string, string[]> = {
-      "db-front-hold": ["Shoulders", "Traps"],
-      "db-incline-fly": ["Chest", "Biceps"],
-      "bench-press": ["Chest", "Shoulders", "Triceps"],
-      "lat-raise": ["Shoulders"],
-      "arnold-press": ["Biceps", "Triceps"],
-    };
-    setSelectedMuscles(selectedExerciseId && muscleMap[selectedExerciseId] ? muscleMap[selectedExerciseId] : []);
-  }, [selectedExerciseId]);
+    setSelectedMuscles(selectedExercise ? exerciseMuscles(selectedExercise) : []);
+  }, [selectedExercise]);
 
   const handleMuscleSelect = (muscleName: string) => {
     setSelectedMuscles(prev =>
@@ -1,9 +1,11 @@
 "use client";
 
 import { Lexend } from "next/font/google";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import Stepper from "../app/components/Stepper";
+import { EXERCISES, exerciseMuscles } from "../lib/exercises";
 
 const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
 
@@ -11,15 +13,6 @@ const CARD_SHELL =
   "mx-auto max-w-5xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5 " +
   "min-h-[640px] md:min-h-[620px]";
 
-type Exercise = { id: string; title: string; muscles: string; imageUrl: string };
-const EXERCISES: Exercise[] = [
-  { id: "db-front-hold", title: "Dumbbell Front Hold", muscles: "Shoulders, Traps", imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-front-raise/dumbbell-front-raise-800.avif" },
-  { id: "db-incline-fly", title: "Dumbbell Incline Fly", muscles: "Chest, Biceps", imageUrl: "https://static.strengthlevel.com/images/exercises/incline-dumbbell-fly/incline-dumbbell-fly-800.avif" },
-  { id: "bench-press", title: "Bench Press", muscles: "Chest, Shoulders, Triceps", imageUrl: "https://static.strengthlevel.com/images/exercises/bench-press/bench-press-800.avif" },
-  { id: "lat-raise", title: "Lateral Raise", muscles: "Shoulders", imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-lateral-raise/dumbbell-lateral-raise-800.avif" },
-  { id: "arnold-press", title: "Arnold Press", muscles: "Biceps, Triceps", imageUrl: "https://static.strengthlevel.com/images/exercises/arnold-press/arnold-press-800.avif" },
-];
-
 export default function ExercisePage() {
   const router = useRouter();
   const [selected, setSelected] = useState<string | null>(null);
@@ -54,7 +47,7 @@ export default function ExercisePage() {
                       {ex.title}
                     </div>
                     <div className={`mt-1 text-sm ${active ? "text-indigo-100" : "text-zinc-500"}`}>
-                      {ex.muscles}
+                      {exerciseMuscles(ex).join(", ")}
                     </div>
                   </div>
                 </div>
@@ -63,7 +56,7 @@ export default function ExercisePage() {
           })}
         </div>
 
-        <div className="mt-8 flex items-center justify-end">
+        <div className="mt-8 flex items-center justify-between">
           {/* <button
             onClick={() => router.push("/")}
             className="inline-flex items-center gap-2 rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-900 shadow-sm hover:bg-zinc-300 active:translate-y-[1px]">
@@ -73,6 +66,13 @@ export default function ExercisePage() {
             Back
           </button> */}
 
+          <Link
+            href="/history"
+            className="inline-flex items-center gap-2 rounded-2xl bg-zinc-200 px-5 py-3 text-zinc-900 shadow-sm hover:bg-zinc-300"
+          >
+            History
+          </Link>
+
           <button
             onClick={() => router.push(`/muscle?exercise=${selected}`)}
             disabled={!selected}
@@ -0,0 +1,97 @@
+"use client";
+
+import { Lexend } from "next/font/google";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import SessionPlayer from "../../components/SessionPlayer";
+import { replayMarkers } from "../../../lib/history/replay";
+import type { LandmarkFrame, SessionRecord } from "../../../lib/history/sessionRecord";
+import { getLandmarks, getSession, historySupported, listVideos } from "../../../lib/history/sessionStore";
+import type { VideoClip } from "../../../lib/history/videoRecorder";
+
+const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
+
+export default function ReplayPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [record, setRecord] = useState<SessionRecord | null>(null);
+  const [clips, setClips] = useState<VideoClip[] | null>(null);
+  const [frames, setFrames] = useState<LandmarkFrame[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!historySupported()) {
+      setError("This browser cannot store session history.");
+      return;
+    }
+    let cancelled = false;
+    Promise.all([getSession(sessionId), listVideos(sessionId), getLandmarks(sessionId)])
+      .then(([r, list, stored]) => {
+        if (cancelled) return;
+        if (!r) setError("Session not found.");
+        else if (list.length === 0) setError("No video was recorded for this session.");
+        else {
+          setRecord(r);
+          setClips(list);
+          setFrames(stored);
+        }
+      })
+      .catch((e) => {
+        console.error("Loading replay failed:", e);
+        if (!cancelled) setError("Could not load this session.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const markers = useMemo(() => (record ? replayMarkers(record) : []), [record]);
+
+  return (
+    <main className={`${lexend.variable} font-sans min-h-screen bg-zinc-100 p-4 sm:p-6`}>
+      <div className="mx-auto max-w-6xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-extrabold text-zinc-900">Session Replay</h1>
+            {record && (
+              <p className="mt-1 text-sm text-zinc-500">
+                {record.exerciseTitle} · {new Date(record.startedAt).toLocaleString()} · {record.reps.length} reps ·{" "}
+                {record.cues.length} cues
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Link href={`/annotate/${sessionId}`} className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300">
+              Annotate
+            </Link>
+            <Link href={`/summary/${sessionId}`} className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300">
+              Summary
+            </Link>
+            <Link href="/history" className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300">
+              History
+            </Link>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="py-16 text-center text-red-600">{error}</p>
+        ) : !record || !clips ? (
+          <p className="py-16 text-center text-zinc-500">Loading…</p>
+        ) : (
+          <>
+            <SessionPlayer clips={clips} samples={record.samples} frames={frames} thresholds={record.thresholds} markers={markers} />
+            <p className="mt-4 text-xs text-zinc-500">
+              Grey ticks mark where reps started and were counted; dots are feedback cues in their intent colour.
+              Click a marker to jump to it. Space plays and pauses, ← and → step one analysed frame.
+            </p>
+          </>
+        )}
+      </div>
+
+      <style jsx global>{`
+        :root { --font-lexend: ${lexend.style.fontFamily}; }
+        .font-sans { font-family: var(--font-lexend), ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Noto Sans, Ubuntu, Cantarell, Helvetica Neue, Arial, "Apple Color Emoji", "Segoe UI Emoji"; }
+      `}</style>
+    </main>
+  );
+}
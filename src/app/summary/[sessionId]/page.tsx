@@ -0,0 +1,370 @@
+"use client";
+
+import { Lexend } from "next/font/google";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import AngleChart from "../../components/AngleChart";
+import AnteriorBody from "../../components/AnteriorBody";
+import PosteriorBody from "../../components/PosteriorBody";
+import { getExercise } from "../../../lib/exercises";
+import { INTENTS, INTENT_COLOR } from "../../../lib/feedbackConfig";
+import type { SessionLandmarks, SessionRecord } from "../../../lib/history/sessionRecord";
+import {
+  downloadBlob,
+  downloadText,
+  eventsCsv,
+  exportName,
+  framesCsv,
+  sessionBundle,
+  sessionJson,
+} from "../../../lib/history/sessionExport";
+import { getLandmarks, getSession, historySupported, listVideos } from "../../../lib/history/sessionStore";
+import type { VideoClip } from "../../../lib/history/videoRecorder";
+import { summarizeSession } from "../../../lib/history/sessionSummary";
+import { JOINT_ARCS } from "../../../lib/pose/jointReadout";
+
+const lexend = Lexend({ subsets: ["latin"], variable: "--font-lexend" });
+
+const JOINT_LABEL = Object.fromEntries(JOINT_ARCS.map((a) => [a.key, a.label])) as Record<string, string>;
+
+const formatDuration = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+/** Offset from the start of the session, as m:ss. */
+const clock = (at: number, startedAt: number) => formatDuration(Math.max(0, at - startedAt));
+
+const EXPORT_BUTTON = "rounded-lg bg-zinc-200 px-3 py-1.5 text-sm text-zinc-800 hover:bg-zinc-300";
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded-2xl bg-zinc-50 p-4 ring-1 ring-black/5">
+    <div className="text-xs text-zinc-500">{label}</div>
+    <div className="mt-1 text-xl font-bold text-zinc-900">{value}</div>
+  </div>
+);
+
+export default function SummaryPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [record, setRecord] = useState<SessionRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [clips, setClips] = useState<VideoClip[]>([]);
+
+  useEffect(() => {
+    if (!historySupported()) {
+      setError("This browser cannot store session history.");
+      return;
+    }
+    let cancelled = false;
+    getSession(sessionId)
+      .then((r) => {
+        if (cancelled) return;
+        if (r) setRecord(r);
+        else setError("Session not found.");
+      })
+      .catch((e) => {
+        console.error("Loading session failed:", e);
+        if (!cancelled) setError("Could not load this session.");
+      });
+    listVideos(sessionId)
+      .then((list) => {
+        if (!cancelled) setClips(list);
+      })
+      .catch((e) => console.error("Loading session video failed:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  /** Landmarks are only read for an export that includes them. */
+  const exportWithLandmarks = (write: (landmarks: SessionLandmarks[]) => void) =>
+    getLandmarks(sessionId)
+      .then((frames) => write([{ sessionId, frames }]))
+      .catch((e) => console.error("Loading landmarks failed:", e));
+
+  const summary = useMemo(() => (record ? summarizeSession(record, getExercise(record.exerciseId)) : null), [record]);
+  const romJoints = useMemo(
+    () => JOINT_ARCS.filter(({ key }) => summary?.reps.some((r) => r.rom[key] !== undefined)).map((a) => a.key),
+    [summary]
+  );
+
+  return (
+    <main
+      className={`${lexend.variable} summary-root font-sans min-h-screen bg-zinc-100 p-4 sm:p-6`}
+      style={{ ["--heat-color" as any]: summary?.heatColor }}
+    >
+      <div className="mx-auto max-w-5xl rounded-3xl bg-white p-5 sm:p-8 shadow-xl ring-1 ring-black/5">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-extrabold text-zinc-900">Session Summary</h1>
+            {record && (
+              <p className="mt-1 text-sm text-zinc-500">
+                {record.exerciseTitle} · {new Date(record.startedAt).toLocaleString()}
+                {record.calibrated && " · calibrated thresholds"}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Link href="/history" className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300">
+              History
+            </Link>
+            <Link href="/" className="rounded-2xl bg-indigo-600 px-5 py-2.5 text-white shadow hover:bg-indigo-700">
+              New Session
+            </Link>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="py-16 text-center text-red-600">{error}</p>
+        ) : !record || !summary ? (
+          <p className="py-16 text-center text-zinc-500">Loading…</p>
+        ) : (
+          <div className="grid gap-8">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-zinc-500">Export:</span>
+              <button
+                type="button"
+                className={EXPORT_BUTTON}
+                onClick={() =>
+                  exportWithLandmarks((landmarks) =>
+                    downloadText(framesCsv([record], landmarks), `${exportName(record)}_frames.csv`, "text/csv")
+                  )
+                }
+              >
+                Frames CSV
+              </button>
+              <button
+                type="button"
+                className={EXPORT_BUTTON}
+                onClick={() => downloadText(eventsCsv([record]), `${exportName(record)}_events.csv`, "text/csv")}
+              >
+                Events CSV
+              </button>
+              <button
+                type="button"
+                className={EXPORT_BUTTON}
+                onClick={() =>
+                  downloadText(JSON.stringify(sessionJson(record), null, 2), `${exportName(record)}.json`, "application/json")
+                }
+              >
+                JSON
+              </button>
+              <button
+                type="button"
+                className={EXPORT_BUTTON}
+                onClick={() =>
+                  exportWithLandmarks((landmarks) => downloadBlob(sessionBundle([record], landmarks), `${exportName(record)}.zip`))
+                }
+              >
+                Bundle (.zip)
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label={getExercise(record.exerciseId)?.hold ? "Sets Held" : "Reps"} value={String(summary.reps.length)} />
+              <Stat label="Total Time" value={formatDuration(summary.totalMs)} />
+              <Stat
+                label="Within Thresholds"
+                value={summary.overallInBandPct === null ? "—" : `${Math.round(summary.overallInBandPct)}%`}
+              />
+              <Stat label="Form Violations" value={String(record.violations.length)} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <section>
+                <h2 className="mb-3 text-lg font-bold text-zinc-900">Muscle Activation</h2>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="flex h-72 flex-col items-center gap-2">
+                    <AnteriorBody selectedMuscles={record.muscles} onSelect={() => {}} />
+                    <span className="text-zinc-600 text-sm">Front</span>
+                  </div>
+                  <div className="flex h-72 flex-col items-center gap-2">
+                    <PosteriorBody selectedMuscles={record.muscles} onSelect={() => {}} />
+                    <span className="text-zinc-600 text-sm">Back</span>
+                  </div>
+                </div>
+                <p className="mt-2 text-center text-sm text-zinc-600">
+                  Final activation: <span className="font-semibold">{Math.round(record.activationPct)}%</span>
+                </p>
+              </section>
+
+              <section>
+                <h2 className="mb-3 text-lg font-bold text-zinc-900">Time per Phase</h2>
+                <table className="w-full text-left text-sm">
+                  <tbody className="text-zinc-800">
+                    {summary.phases.map((p) => (
+                      <tr key={p.name} className="border-b border-zinc-100">
+                        <td className="py-2 pr-4 font-semibold">{p.name}</td>
+                        <td className="py-2 pr-4 capitalize text-zinc-500">{p.contraction ?? ""}</td>
+                        <td className="py-2 text-right">{seconds(p.ms)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {summary.reps.length > 0 && (
+                  <p className="mt-3 text-sm text-zinc-600">
+                    Mean tempo per rep: {seconds(summary.meanTempo.concentric)} concentric ·{" "}
+                    {seconds(summary.meanTempo.eccentric)} eccentric
+                    {summary.meanTempo.isometric > 0 && ` · ${seconds(summary.meanTempo.isometric)} isometric`}
+                  </p>
+                )}
+
+                <h2 className="mb-3 mt-6 text-lg font-bold text-zinc-900">Within Thresholds</h2>
+                <div className="grid gap-2">
+                  {JOINT_ARCS.filter(({ key }) => summary.inBandPct[key] !== undefined).map(({ key, label }) => (
+                    <div key={key} className="grid grid-cols-[6rem_1fr_3rem] items-center gap-2 text-sm">
+                      <span className="text-zinc-600">{label}</span>
+                      <div className="h-2 rounded-full bg-zinc-200">
+                        <div className="h-2 rounded-full bg-green-500" style={{ width: `${summary.inBandPct[key]}%` }} />
+                      </div>
+                      <span className="text-right text-zinc-800">{Math.round(summary.inBandPct[key]!)}%</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </div>
+
+            {clips.length > 0 && (
+              <section className="flex flex-wrap items-center justify-between gap-3 rounded-2xl bg-zinc-50 p-4 ring-1 ring-black/5">
+                <div>
+                  <h2 className="text-lg font-bold text-zinc-900">Recording</h2>
+                  <p className="text-sm text-zinc-600">
+                    {new Set(clips.map((c) => c.camera)).size === 2 ? "Front and side" : `${clips[0].camera === "front" ? "Front" : "Side"} camera`}{" "}
+                    video with the tracked skeleton, rep boundaries and cues.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Link
+                    href={`/annotate/${record.id}`}
+                    className="rounded-2xl bg-zinc-200 px-5 py-2.5 text-zinc-800 hover:bg-zinc-300"
+                  >
+                    Annotate
+                  </Link>
+                  <Link
+                    href={`/replay/${record.id}`}
+                    className="rounded-2xl bg-indigo-600 px-5 py-2.5 text-white shadow hover:bg-indigo-700"
+                  >
+                    Replay
+                  </Link>
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="mb-3 text-lg font-bold text-zinc-900">Joint Angles</h2>
+              <AngleChart trace={record} exercise={getExercise(record.exerciseId)} />
+            </section>
+
+            <section>
+              <h2 className="mb-3 text-lg font-bold text-zinc-900">Reps</h2>
+              {summary.reps.length === 0 ? (
+                <p className="text-sm text-zinc-500">No complete reps were recorded.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="border-b border-zinc-200 text-zinc-500">
+                      <tr>
+                        <th className="py-2 pr-4 font-medium">Rep</th>
+                        <th className="py-2 pr-4 font-medium">Duration</th>
+                        <th className="py-2 pr-4 font-medium">Concentric</th>
+                        <th className="py-2 pr-4 font-medium">Eccentric</th>
+                        {romJoints.map((key) => (
+                          <th key={key} className="py-2 pr-4 font-medium">{JOINT_LABEL[key]} ROM</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-zinc-800">
+                      {summary.reps.map((rep) => (
+                        <tr key={rep.index} className="border-b border-zinc-100">
+                          <td className="py-2 pr-4 font-semibold">{rep.index}</td>
+                          <td className="py-2 pr-4">{seconds(rep.durationMs)}</td>
+                          <td className="py-2 pr-4">{seconds(rep.tempo.concentric)}</td>
+                          <td className="py-2 pr-4">{seconds(rep.tempo.eccentric)}</td>
+                          {romJoints.map((key) => (
+                            <td key={key} className="py-2 pr-4">
+                              {rep.rom[key] === undefined ? "—" : `${Math.round(rep.rom[key]!)}°`}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h2 className="mb-3 text-lg font-bold text-zinc-900">Form Violations</h2>
+              <div className="relative mb-3 h-3 rounded-full bg-zinc-200">
+                {record.violations.map((v, i) => (
+                  <span
+                    key={i}
+                    className="absolute top-1/2 h-3 w-1 -translate-y-1/2 rounded bg-red-500"
+                    style={{ left: `${((v.at - record.startedAt) / Math.max(1, record.durationMs)) * 100}%` }}
+                    title={`${clock(v.at, record.startedAt)} ${JOINT_LABEL[v.joint]} ${Math.round(v.angle)}°`}
+                  />
+                ))}
+              </div>
+              {record.violations.length === 0 ? (
+                <p className="text-sm text-zinc-500">No joint left its form band.</p>
+              ) : (
+                <ul className="max-h-56 overflow-y-auto text-sm text-zinc-800">
+                  {record.violations.map((v, i) => (
+                    <li key={i} className="flex gap-4 border-b border-zinc-100 py-1.5">
+                      <span className="w-12 tabular-nums text-zinc-500">{clock(v.at, record.startedAt)}</span>
+                      <span className="w-28">{v.phase}</span>
+                      <span className="w-24 font-semibold">{JOINT_LABEL[v.joint]}</span>
+                      <span>{Math.round(v.angle)}°</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section>
+              <h2 className="mb-3 text-lg font-bold text-zinc-900">Feedback Delivered</h2>
+              <div className="mb-3 flex flex-wrap gap-4">
+                {INTENTS.map((intent) => (
+                  <div key={intent} className="flex items-center gap-2 text-sm text-zinc-700">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: INTENT_COLOR[intent] }} />
+                    {intent}: <span className="font-semibold">{summary.cuesByIntent[intent]}</span>
+                  </div>
+                ))}
+              </div>
+              {record.cues.length === 0 ? (
+                <p className="text-sm text-zinc-500">No cues were sent.</p>
+              ) : (
+                <ul className="max-h-56 overflow-y-auto text-sm text-zinc-800">
+                  {record.cues.map((c, i) => (
+                    <li key={i} className="flex items-center gap-4 border-b border-zinc-100 py-1.5">
+                      <span className="w-12 tabular-nums text-zinc-500">{clock(c.at, record.startedAt)}</span>
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: INTENT_COLOR[c.intent] }} />
+                      <span className="w-28">{c.phase}</span>
+                      <span className="w-24 font-semibold">{JOINT_LABEL[c.joint]}</span>
+                      <span>{Math.round(c.error)}° off</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+
+      <style jsx global>{`
+        :root { --font-lexend: ${lexend.style.fontFamily}; }
+        .font-sans { font-family: var(--font-lexend), ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Noto Sans, Ubuntu, Cantarell, Helvetica Neue, Arial, "Apple Color Emoji", "Segoe UI Emoji"; }
+
+        .summary-root svg g.selected,
+        .summary-root svg g.selected path,
+        .summary-root svg g.selected polygon,
+        .summary-root svg g.selected rect,
+        .summary-root svg g.selected circle {
+          fill: var(--heat-color) !important;
+          stroke: var(--heat-color) !important;
+        }
+      `}</style>
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+import { holdProgressPct, type HoldRule, type HoldRuntime } from "./holdTracker";
+
+/** Reps that make a full set on the heat map. */
+export const TARGET_REPS = 12;
+
+const HEX = (s: string) => (s.startsWith("#") ? s : `#${s}`);
+const hexToRgb = (hex: string) => {
+  const h = HEX(hex).replace("#", "");
+  const b = h.length === 3 ? h.split("").map(x => x + x).join("") : h;
+  const num = parseInt(b, 16);
+  return { r: (num >> 16) & 255, g: (num >> 8) & 255, b: num & 255 };
+};
+const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => v.toString(16).padStart(2, "0")).join("")}`;
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const lerpColor = (aHex: string, bHex: string, t: number) => {
+  const a = hexToRgb(aHex), b = hexToRgb(bHex);
+  return rgbToHex(
+    Math.round(lerp(a.r, b.r, t)),
+    Math.round(lerp(a.g, b.g, t)),
+    Math.round(lerp(a.b, b.b, t)),
+  );
+};
+
+/** color legends for muscle actv
+ * 0–19%: gray-300 (#d1d5db)
+ * 20–39%: blue-300 (#93c5fd)
+ * 40–59%: green-300 (#86efac)
+ * 60–100%: orange-300 (#fdba74)
+ * >100%: red-400 (#f87171)
+ */
+export const colorForActivation = (pct: number) => {
+  if (pct <= 0) return "#d1d5db";
+  if (pct > 100) return "#f87171";
+  const stops = [
+    { p: 0, c: "#d1d5db" },
+    { p: 20, c: "#93c5fd" },
+    { p: 40, c: "#86efac" },
+    { p: 60, c: "#fdba74" },
+    { p: 100, c: "#fdba74" },
+  ];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const a = stops[i], b = stops[i + 1];
+    if (pct >= a.p && pct <= b.p) {
+      const t = (pct - a.p) / (b.p - a.p || 1);
+      return lerpColor(a.c, b.c, t);
+    }
+  }
+  return stops[stops.length - 1].c;
+};
+
+/** Workout progress shown by the heat map; timed holds count their held sets instead of reps. */
+export const activationFor = (holdRule: HoldRule | null, reps: number, hold: HoldRuntime) =>
+  holdRule ? holdProgressPct(holdRule, hold) : (reps / TARGET_REPS) * 100;
@@ -0,0 +1,74 @@
+export type Vec3 = { x: number; y: number; z: number };
+
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const mid = (a: Vec3, b: Vec3): Vec3 => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const scale = (a: Vec3, k: number): Vec3 => ({ x: a.x * k, y: a.y * k, z: a.z * k });
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const norm = (a: Vec3) => Math.hypot(a.x, a.y, a.z);
+const unit = (a: Vec3): Vec3 | null => {
+  const n = norm(a);
+  return n > 0 ? scale(a, 1 / n) : null;
+};
+const deg = (rad: number) => (rad * 180) / Math.PI;
+
+/** Angle ABC in the image plane; depends on how the limb faces the camera. */
+export const angle2d = (A: Vec3 | undefined, B: Vec3 | undefined, C: Vec3 | undefined) => {
+  if (!A || !B || !C) return 0;
+  const a = B.x - A.x;
+  const b = B.y - A.y;
+  const c = B.x - C.x;
+  const d = B.y - C.y;
+  const angle = Math.atan2(d, c) - Math.atan2(b, a);
+  const degrees = Math.abs(angle * 180.0 / Math.PI);
+  return degrees > 180 ? 360 - degrees : degrees;
+};
+
+/** Angle ABC between the true 3D segments, in degrees; undefined when a segment has no length. */
+export const angle3d = (A: Vec3, B: Vec3, C: Vec3) => {
+  const ba = sub(A, B);
+  const bc = sub(C, B);
+  const n = norm(ba) * norm(bc);
+  if (n === 0) return undefined;
+  return deg(Math.acos(Math.max(-1, Math.min(1, dot(ba, bc) / n))));
+};
+
+/** Orthonormal trunk axes: `up` from hips to shoulders, `lateral` towards the right shoulder, `forward` towards the face. */
+export type BodyFrame = { up: Vec3; lateral: Vec3; forward: Vec3 };
+
+export const bodyFrame = (
+  leftShoulder: Vec3,
+  rightShoulder: Vec3,
+  leftHip: Vec3,
+  rightHip: Vec3,
+  nose: Vec3
+): BodyFrame | null => {
+  const shoulders = mid(leftShoulder, rightShoulder);
+  const up = unit(sub(shoulders, mid(leftHip, rightHip)));
+  if (!up) return null;
+  const across = sub(rightShoulder, leftShoulder);
+  const lateral = unit(sub(across, scale(up, dot(across, up))));
+  if (!lateral) return null;
+  // Cross-product handedness flips with mirrored landmarks; the nose settles which way is front.
+  let forward = cross(up, lateral);
+  if (dot(forward, sub(nose, shoulders)) < 0) forward = scale(forward, -1);
+  return { up, lateral, forward };
+};
+
+/**
+ * Upper-arm elevation in the frontal plane (abduction) and the sagittal plane (flexion), in
+ * degrees: 0 with the arm hanging, 90 horizontal, 180 overhead. Adduction across the body and
+ * extension behind it come out negative.
+ */
+export const shoulderPlaneAngles = (frame: BodyFrame, shoulder: Vec3, elbow: Vec3, outward: 1 | -1) => {
+  const arm = sub(elbow, shoulder);
+  const down = -dot(arm, frame.up);
+  return {
+    abduction: deg(Math.atan2(dot(arm, frame.lateral) * outward, down)),
+    flexion: deg(Math.atan2(dot(arm, frame.forward), down)),
+  };
+};
@@ -0,0 +1,105 @@
+import type { Joint } from "./exercises";
+import type { RepMachine } from "./repEngine";
+import type { PoseSignals, Side } from "./signals";
+
+/**
+ * The asymmetry threshold is set in degrees; a peak lag is compared against it at this rate, so a
+ * 10° threshold allows one arm to peak 200 ms after the other.
+ */
+export const LAG_MS_PER_DEG = 20;
+
+/** Imbalance measured over one completed rep. */
+export type RepAsymmetry = {
+  /** How much later one arm reached its peak than the other. */
+  lagMs: number;
+  /** Difference between the arms' ranges of motion, in degrees. */
+  romDiff: number;
+  /** Arm that peaked later, or moved less when that is the larger imbalance. */
+  behind: Side;
+  /** Timestamp the rep finished at; changes once per rep. */
+  at: number;
+};
+
+export type AsymmetryReading = {
+  /** Joint compared between the arms and whether the working phase raises it; null before the first frame. */
+  joint: Joint | null;
+  rising: boolean;
+  /** Live difference of the tracked joint between the arms, in degrees. */
+  angleDiff: number | null;
+  /** Arm further back in the direction of travel right now. */
+  behind: Side | null;
+  lastRep: RepAsymmetry | null;
+};
+
+type SideTrace = { min: number; max: number; peak: number; peakAt: number };
+
+export type AsymmetryRuntime = {
+  trace: Record<Side, SideTrace | null>;
+  reading: AsymmetryReading;
+};
+
+export const initialAsymmetry = (): AsymmetryRuntime => ({
+  trace: { left: null, right: null },
+  reading: { joint: null, rising: true, angleDiff: null, behind: null, lastRep: null },
+});
+
+/** Degrees-equivalent size of the worst imbalance, for comparing against the user's threshold. */
+export const repAsymmetryScore = (r: RepAsymmetry) => Math.max(r.romDiff, r.lagMs / LAG_MS_PER_DEG);
+
+const extend = (trace: SideTrace | null, angle: number, now: number, rising: boolean): SideTrace => {
+  if (!trace) return { min: angle, max: angle, peak: angle, peakAt: now };
+  const further = rising ? angle > trace.peak : angle < trace.peak;
+  return {
+    min: Math.min(trace.min, angle),
+    max: Math.max(trace.max, angle),
+    peak: further ? angle : trace.peak,
+    peakAt: further ? now : trace.peakAt,
+  };
+};
+
+const summarize = (l: SideTrace, r: SideTrace, at: number): RepAsymmetry => {
+  const lagMs = Math.abs(l.peakAt - r.peakAt);
+  const romL = l.max - l.min;
+  const romR = r.max - r.min;
+  const romDiff = Math.abs(romL - romR);
+  const later: Side = l.peakAt > r.peakAt ? "left" : "right";
+  const smaller: Side = romL < romR ? "left" : "right";
+  return { lagMs, romDiff, behind: lagMs / LAG_MS_PER_DEG >= romDiff ? later : smaller, at };
+};
+
+/**
+ * Compares the two arms on the rep machine's joint: live angle difference every frame, and the
+ * peak timing and range of motion of each arm once a rep completes.
+ */
+export const stepAsymmetry = (
+  machine: Pick<RepMachine, "joint" | "direction">,
+  runtime: AsymmetryRuntime,
+  signals: Record<Side, PoseSignals>,
+  now: number,
+  repCompleted: boolean
+): AsymmetryRuntime => {
+  const rising = machine.direction === "rising";
+  const l = signals.left[machine.joint];
+  const r = signals.right[machine.joint];
+  const trace = {
+    left: l === undefined ? runtime.trace.left : extend(runtime.trace.left, l, now, rising),
+    right: r === undefined ? runtime.trace.right : extend(runtime.trace.right, r, now, rising),
+  };
+
+  let behind: Side | null = null;
+  if (l !== undefined && r !== undefined && l !== r) {
+    const leftAhead = rising ? l > r : l < r;
+    behind = leftAhead ? "right" : "left";
+  }
+  const reading: AsymmetryReading = {
+    joint: machine.joint,
+    rising,
+    angleDiff: l !== undefined && r !== undefined ? Math.abs(l - r) : null,
+    behind,
+    lastRep: runtime.reading.lastRep,
+  };
+
+  if (!repCompleted) return { trace, reading };
+  if (trace.left && trace.right) reading.lastRep = summarize(trace.left, trace.right, now);
+  return { trace: { left: null, right: null }, reading };
+};
@@ -0,0 +1,58 @@
+import { findPhase, type ExerciseDefinition } from "../exercises";
+import type { AudioMode, FeedbackConfig } from "../feedbackConfig";
+import type { PolicyEvent } from "../feedbackPolicy";
+import { JOINT_ARCS } from "../pose/jointReadout";
+import { NO_PHASE, type SessionAnalysis } from "../pose/sessionTracker";
+import type { AudioCue, AudioPlayer } from "./audioPlayer";
+
+const hasEarcon = (mode: AudioMode) => mode === "Earcon" || mode === "Both";
+const hasSpeech = (mode: AudioMode) => mode === "Spoken" || mode === "Both";
+
+/** Spoken correction for a cue: which way to move which of the user's arms. */
+export const correctionPhrase = (event: PolicyEvent) => {
+  const arc = JOINT_ARCS.find((j) => j.key === event.joint)!;
+  const arm = arc.userSide;
+  if (arc.joint === "elbow") return event.sign > 0 ? `Bend your ${arm} elbow` : `Straighten your ${arm} elbow`;
+  return event.sign > 0 ? `Lower your ${arm} arm` : `Raise your ${arm} arm`;
+};
+
+export type AudioFeedback = {
+  update: (analysis: SessionAnalysis) => void;
+  cue: (event: PolicyEvent) => void;
+};
+
+/**
+ * Audio counterpart of the haptic output: on entering a phase it plays the Information earcon
+ * and speaks the phase's coaching cue; on a correction it plays that intent's earcon and says
+ * which way to move. Each phase's audio mode picks earcon, speech or both.
+ */
+export function createAudioFeedback(
+  player: AudioPlayer,
+  exercise: ExerciseDefinition | undefined,
+  config: FeedbackConfig
+): AudioFeedback {
+  let prevPhase = NO_PHASE;
+
+  return {
+    update: (analysis) => {
+      const phase = analysis.phase;
+      if (phase === prevPhase) return;
+      prevPhase = phase;
+      const mode = config[phase]?.audio ?? "Off";
+      if (phase === NO_PHASE || mode === "Off") return;
+      const text = findPhase(exercise, phase)?.cues[0];
+      const cues: AudioCue[] = [];
+      if (hasEarcon(mode)) cues.push({ kind: "earcon", intent: "Information" });
+      if (hasSpeech(mode) && text) cues.push({ kind: "speech", text });
+      player.enqueue({ key: `phase:${phase}`, cues });
+    },
+    cue: (event) => {
+      const mode = config[event.phase]?.audio ?? "Off";
+      if (mode === "Off") return;
+      const cues: AudioCue[] = [];
+      if (hasEarcon(mode)) cues.push({ kind: "earcon", intent: event.intent });
+      if (hasSpeech(mode)) cues.push({ kind: "speech", text: correctionPhrase(event) });
+      player.enqueue({ key: `cue:${event.joint}`, cues });
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import type { Intent } from "../feedbackConfig";
+import { playEarcon } from "./earcons";
+
+export type AudioSettings = {
+  /** 0–1, for both earcons and speech. */
+  volume: number;
+  /** `voiceURI` of the chosen speech voice; null picks the browser default for `lang`. */
+  voice: string | null;
+  lang: string;
+  /** Speech rate, 1 is normal. */
+  rate: number;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.8, voice: null, lang: "en-US", rate: 1 };
+
+const SETTINGS_KEY = "audio-settings";
+
+export const loadAudioSettings = (): AudioSettings => {
+  if (typeof window === "undefined") return DEFAULT_AUDIO_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AUDIO_SETTINGS;
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const speechSupported = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+export type AudioCue = { kind: "earcon"; intent: Intent } | { kind: "speech"; text: string };
+
+/** Cues played back to back; `key` collapses a group with one already waiting. */
+export type AudioCueGroup = { key: string; cues: AudioCue[] };
+
+/** Older groups are dropped past this: a correction that waited this long is out of date. */
+export const MAX_QUEUED_GROUPS = 3;
+/** Some browsers never fire `end` for an utterance; this bounds how long the queue waits on one. */
+const SPEECH_TIMEOUT_MS = 8000;
+
+export type AudioPlayer = {
+  enqueue: (group: AudioCueGroup) => void;
+  setSettings: (settings: AudioSettings) => void;
+  /** Drops queued cues and stops the one playing. */
+  clear: () => void;
+  close: () => void;
+};
+
+/** Plays earcons and spoken cues one at a time, so a correction never talks over a phase cue. */
+export function createAudioPlayer(initial: AudioSettings): AudioPlayer {
+  let settings = initial;
+  let ctx: AudioContext | null = null;
+  let queue: AudioCueGroup[] = [];
+  let playing = false;
+  let closed = false;
+
+  const speak = (text: string) =>
+    new Promise<void>((resolve) => {
+      if (!speechSupported()) return resolve();
+      const u = new SpeechSynthesisUtterance(text);
+      u.lang = settings.lang;
+      u.rate = settings.rate;
+      u.volume = settings.volume;
+      const voice = window.speechSynthesis.getVoices().find((v) => v.voiceURI === settings.voice);
+      if (voice) u.voice = voice;
+      const timer = setTimeout(resolve, SPEECH_TIMEOUT_MS);
+      u.onend = u.onerror = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      window.speechSynthesis.speak(u);
+    });
+
+  const earcon = async (intent: Intent) => {
+    if (typeof AudioContext === "undefined") return;
+    ctx ??= new AudioContext();
+    // Contexts made before a user gesture start suspended.
+    if (ctx.state === "suspended") await ctx.resume().catch(() => {});
+    await playEarcon(ctx, intent, settings.volume);
+  };
+
+  const pump = async () => {
+    if (playing || closed) return;
+    const group = queue.shift();
+    if (!group) return;
+    playing = true;
+    try {
+      for (const cue of group.cues) {
+        if (closed) break;
+        if (cue.kind === "earcon") await earcon(cue.intent);
+        else await speak(cue.text);
+      }
+    } catch (e) {
+      console.error("Audio cue error:", e);
+    }
+    playing = false;
+    pump();
+  };
+
+  return {
+    enqueue: (group) => {
+      if (closed || settings.volume <= 0 || group.cues.length === 0) return;
+      if (queue.some((g) => g.key === group.key)) return;
+      queue.push(group);
+      if (queue.length > MAX_QUEUED_GROUPS) queue = queue.slice(-MAX_QUEUED_GROUPS);
+      pump();
+    },
+    setSettings: (next) => {
+      settings = next;
+    },
+    clear: () => {
+      queue = [];
+      if (speechSupported()) window.speechSynthesis.cancel();
+    },
+    close: () => {
+      closed = true;
+      queue = [];
+      if (speechSupported()) window.speechSynthesis.cancel();
+      ctx?.close().catch(() => {});
+      ctx = null;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { Intent } from "../feedbackConfig";
+
+/** One oscillator note; `at` and `ms` are relative to the start of the earcon. */
+type Tone = { hz: number; at: number; ms: number };
+
+/** Short synthesized tones, so the app ships no audio files: urgent, guiding and neutral. */
+export const EARCONS: Record<Intent, Tone[]> = {
+  Warning: [
+    { hz: 880, at: 0, ms: 120 },
+    { hz: 880, at: 180, ms: 120 },
+  ],
+  Correction: [
+    { hz: 523, at: 0, ms: 140 },
+    { hz: 784, at: 150, ms: 180 },
+  ],
+  Information: [{ hz: 660, at: 0, ms: 160 }],
+};
+
+export const earconDurationMs = (intent: Intent) =>
+  Math.max(...EARCONS[intent].map((t) => t.at + t.ms));
+
+const RAMP_S = 0.01;
+
+/** Schedules the earcon on `ctx` and resolves once it has finished. */
+export const playEarcon = (ctx: AudioContext, intent: Intent, volume: number): Promise<void> => {
+  const start = ctx.currentTime;
+  for (const tone of EARCONS[intent]) {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const t0 = start + tone.at / 1000;
+    const t1 = t0 + tone.ms / 1000;
+    osc.type = "sine";
+    osc.frequency.value = tone.hz;
+    // Ramps avoid the click of a hard start and stop.
+    gain.gain.setValueAtTime(0, t0);
+    gain.gain.linearRampToValueAtTime(volume, t0 + RAMP_S);
+    gain.gain.setValueAtTime(volume, t1 - RAMP_S);
+    gain.gain.linearRampToValueAtTime(0, t1);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(t0);
+    osc.stop(t1);
+  }
+  return new Promise((resolve) => setTimeout(resolve, earconDurationMs(intent)));
+};
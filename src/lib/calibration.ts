@@ -0,0 +1,146 @@
+import type { AngleRange, ExerciseDefinition, Joint } from "./exercises";
+import { MAX_THRESHOLD_DEG, type FeedbackConfig } from "./feedbackConfig";
+import { NO_PHASE, type SessionAnalysis } from "./pose/sessionTracker";
+
+/** Warm-up reps recorded before thresholds are derived. */
+export const CALIBRATION_REPS = 3;
+/** Added either side of the user's 5th–95th percentile range of motion. */
+export const CALIBRATION_MARGIN_DEG = 5;
+const MIN_LIMIT_DEG = 3;
+/** Keeps a long warm-up from growing without bound; at camera rate this is several minutes. */
+const MAX_SAMPLES = 5000;
+
+/**
+ * Personal thresholds in place of the exercise defaults. `limits` is the excessive-angle limit
+ * and `asymmetryLimits` the left/right limit per phase, both used by System-Detected phases.
+ */
+export type Calibration = {
+  exerciseId: string;
+  thresholds: Partial<Record<Joint, AngleRange>>;
+  limits: Record<string, number>;
+  asymmetryLimits: Record<string, number>;
+  recordedAt: number;
+};
+
+const storageKey = (exerciseId: string) => `calibration:${exerciseId}`;
+
+export const loadCalibration = (exerciseId: string): Calibration | null => {
+  if (typeof window === "undefined" || !exerciseId) return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey(exerciseId));
+    const value = raw ? (JSON.parse(raw) as Calibration) : null;
+    return value?.exerciseId === exerciseId && value.thresholds ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCalibration = (calibration: Calibration) => {
+  window.localStorage.setItem(storageKey(calibration.exerciseId), JSON.stringify(calibration));
+};
+
+export const clearCalibration = (exerciseId: string) => {
+  window.localStorage.removeItem(storageKey(exerciseId));
+};
+
+export const calibratedExercise = (ex: ExerciseDefinition | undefined, c: Calibration | null) =>
+  ex && c ? { ...ex, thresholds: { ...ex.thresholds, ...c.thresholds } } : ex;
+
+/** System-Detected phases take their limit from the calibration; User-Defined ones keep theirs. */
+export const calibratedConfig = (config: FeedbackConfig, c: Calibration | null): FeedbackConfig => {
+  if (!c) return config;
+  return Object.fromEntries(
+    Object.entries(config).map(([phase, f]) => {
+      if (f.control !== "System-Detected") return [phase, f];
+      const limit = f.trigger === "Asymmetry" ? c.asymmetryLimits[phase] : c.limits[phase];
+      return [phase, limit === undefined ? f : { ...f, threshold: limit }];
+    })
+  );
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return NaN;
+  const i = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[i];
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+export type CalibrationProgress = { reps: number; samples: number };
+
+export type CalibrationRecorder = {
+  add: (analysis: SessionAnalysis) => void;
+  progress: () => CalibrationProgress;
+  /** Null until at least one rep has been recorded. */
+  result: () => Calibration | null;
+};
+
+/**
+ * Records joint angles per phase during a warm-up. A rep is counted each time the tracker comes
+ * back to the rest phase, which also works for holds, where the tracker counts sets instead.
+ *
+ * The rep joint's range sets its threshold; the other joint, which should stay steady, sets the
+ * other threshold and, from how much it wanders within each phase, the excessive-angle limits.
+ */
+export function createCalibrationRecorder(exercise: ExerciseDefinition): CalibrationRecorder {
+  const restPhase = exercise.phases.find((p) => p.motion === "rest")?.name;
+  const repJoint: Joint = exercise.rep?.joint ?? "shoulder";
+  const steadyJoint: Joint = repJoint === "elbow" ? "shoulder" : "elbow";
+  const all: Record<Joint, number[]> = { shoulder: [], elbow: [] };
+  const steadyByPhase: Record<string, number[]> = {};
+  const diffByPhase: Record<string, number[]> = {};
+  let reps = 0;
+  let samples = 0;
+  let lastPhase = NO_PHASE;
+  let started = false;
+
+  const push = (list: number[], v: number | undefined) => {
+    if (v !== undefined && list.length < MAX_SAMPLES) list.push(v);
+  };
+
+  return {
+    add: (analysis) => {
+      const { frame, phase } = analysis;
+      if (phase !== lastPhase) {
+        if (phase === restPhase && started) reps += 1;
+        if (phase !== restPhase && phase !== NO_PHASE) started = true;
+        lastPhase = phase;
+      }
+      if (!frame || phase === NO_PHASE) return;
+      samples += 1;
+      for (const side of ["left", "right"] as const) {
+        push(all.shoulder, frame.signals[side].shoulder);
+        push(all.elbow, frame.signals[side].elbow);
+        push((steadyByPhase[phase] ??= []), frame.signals[side][steadyJoint]);
+      }
+      if (analysis.asymmetry.angleDiff !== null) push((diffByPhase[phase] ??= []), analysis.asymmetry.angleDiff);
+    },
+    progress: () => ({ reps, samples }),
+    result: () => {
+      if (reps === 0) return null;
+      const thresholds: Calibration["thresholds"] = {};
+      for (const joint of Object.keys(all) as Joint[]) {
+        const sorted = [...all[joint]].sort((a, b) => a - b);
+        if (!exercise.thresholds[joint] || sorted.length === 0) continue;
+        thresholds[joint] = {
+          min: Math.round(clamp(percentile(sorted, 5) - CALIBRATION_MARGIN_DEG, 0, 180)),
+          max: Math.round(clamp(percentile(sorted, 95) + CALIBRATION_MARGIN_DEG, 0, 180)),
+        };
+      }
+      const spread = (values: number[], lo: number, hi: number) => {
+        const sorted = [...values].sort((a, b) => a - b);
+        return percentile(sorted, hi) - percentile(sorted, lo);
+      };
+      const limits: Record<string, number> = {};
+      for (const [phase, values] of Object.entries(steadyByPhase)) {
+        limits[phase] = Math.round(clamp(spread(values, 10, 90) / 2, MIN_LIMIT_DEG, MAX_THRESHOLD_DEG));
+      }
+      const asymmetryLimits: Record<string, number> = {};
+      for (const [phase, values] of Object.entries(diffByPhase)) {
+        const sorted = [...values].sort((a, b) => a - b);
+        asymmetryLimits[phase] = Math.round(clamp(percentile(sorted, 90), MIN_LIMIT_DEG, MAX_THRESHOLD_DEG));
+      }
+      return { exerciseId: exercise.id, thresholds, limits, asymmetryLimits, recordedAt: Date.now() };
+    },
+  };
+}
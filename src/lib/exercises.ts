@@ -0,0 +1,284 @@
+import type { SignalCondition } from "./signals";
+
+export type AngleRange = { min: number; max: number };
+
+export type Joint = "shoulder" | "elbow";
+
+export type ExercisePhase = {
+  name: string;
+  cues: string[];
+  /** Offered as a feedback phase on the setup path. */
+  selectable: boolean;
+  /** Window of the tracked joint angle in which this phase happens. */
+  angle?: AngleRange;
+  /** Role of the phase in the rep cycle: at rest, moving away from rest, held still, or returning. */
+  motion?: "rest" | "out" | "hold" | "back";
+  /** Muscle action of the working muscles during this phase, for tempo reporting. */
+  contraction?: "concentric" | "eccentric" | "isometric";
+  video?: string;
+  overlay?: string;
+};
+
+/** Rep detection follows the phase windows; `hysteresis` is the dead band around each window edge, in degrees. */
+export type RepRule = {
+  joint: Joint;
+  hysteresis: number;
+  /** How long a transition's condition must hold before the phase changes; defaults to DEFAULT_DWELL_MS. */
+  dwellMs?: number;
+  /** Extra pose signals that must agree when the rep turns around and when it is counted. */
+  confirm?: { turn?: SignalCondition[]; rest?: SignalCondition[] };
+};
+
+/** Isometric target: keep `joint` inside the hold phase window, give or take `tolerance` degrees. */
+export type HoldSpec = {
+  joint: Joint;
+  seconds: number;
+  tolerance: number;
+  sets: number;
+};
+
+export type ExerciseDefinition = {
+  id: string;
+  title: string;
+  imageUrl: string;
+  muscles: { primary: string[]; secondary: string[] };
+  thresholds: Partial<Record<Joint, AngleRange>>;
+  phases: ExercisePhase[];
+  tutorial?: string;
+  rep?: RepRule;
+  hold?: HoldSpec;
+};
+
+export const EXERCISES: ExerciseDefinition[] = [
+  {
+    id: "db-front-hold",
+    title: "Dumbbell Front Hold",
+    imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-front-raise/dumbbell-front-raise-800.avif",
+    muscles: { primary: ["Shoulders", "Traps"], secondary: [] },
+    thresholds: {
+      shoulder: { min: 75, max: 105 },
+      elbow: { min: 150, max: 180 },
+    },
+    phases: [
+      {
+        name: "Setup",
+        cues: ["Stand tall with the dumbbells in front of your thighs, palms facing down."],
+        selectable: true,
+        angle: { min: 0, max: 20 },
+        motion: "rest",
+        video: "/videos/db-front-hold-setup.mp4",
+      },
+      {
+        name: "Hold Phase (Isometric)",
+        cues: ["Raise the arms straight in front to shoulder height and hold them still."],
+        selectable: true,
+        angle: { min: 75, max: 105 },
+        motion: "hold",
+        contraction: "isometric",
+        video: "/videos/db-front-hold-hold-phase-isometric.mp4",
+      },
+      {
+        name: "Lowering Phase (Eccentric)",
+        cues: ["Lower the dumbbells back to your thighs under control."],
+        selectable: true,
+        angle: { min: 21, max: 74 },
+        motion: "back",
+        contraction: "eccentric",
+        video: "/videos/db-front-hold-lowering-phase-eccentric.mp4",
+      },
+    ],
+    tutorial: "/videos/tutorial-db-front-hold.mp4",
+    rep: { joint: "shoulder", hysteresis: 5 },
+    hold: { joint: "shoulder", seconds: 30, tolerance: 8, sets: 3 },
+  },
+  {
+    id: "db-incline-fly",
+    title: "Dumbbell Incline Fly",
+    imageUrl: "https://static.strengthlevel.com/images/exercises/incline-dumbbell-fly/incline-dumbbell-fly-800.avif",
+    muscles: { primary: ["Chest"], secondary: ["Biceps"] },
+    thresholds: {
+      shoulder: { min: 45, max: 180 },
+      elbow: { min: 150, max: 170 },
+    },
+    phases: [
+      {
+        name: "Setup",
+        cues: ["Lying down on an incline bench (30-45°), dumbbells are positioned above the upper chest, palms facing each other. Lift the arms straight upwards."],
+        selectable: true,
+        angle: { min: 160, max: 180 },
+        motion: "rest",
+        video: "/videos/db-incline-fly-setup.mp4",
+        overlay: "/images/db-incline-fly-setup_start_position.png",
+      },
+      {
+        name: "Descent Phase (Eccentric)",
+        cues: ["Lowers dumbbells in a wide arc, maintaining the fixed elbow angle."],
+        selectable: true,
+        angle: { min: 91, max: 159 },
+        motion: "out",
+        contraction: "eccentric",
+        video: "/videos/db-incline-fly-descent-phase-eccentric.mp4",
+        overlay: "/images/db-incline-fly-descent_phase_eccentric.png",
+      },
+      {
+        name: "Ascent Phase (Concentric)",
+        cues: ["Bring dumbbells back up in the same arc, contracting the pectorals through horizontal adduction."],
+        selectable: true,
+        angle: { min: 91, max: 159 },
+        motion: "back",
+        contraction: "concentric",
+        video: "/videos/db-incline-fly-ascent-phase-concentric.mp4",
+        overlay: "/images/db-incline-fly-ascent_phase_concentric.png",
+      },
+    ],
+    tutorial: "/videos/tutorial-db-incline-fly.mp4",
+    rep: { joint: "shoulder", hysteresis: 5 },
+  },
+  {
+    id: "bench-press",
+    title: "Bench Press",
+    imageUrl: "https://static.strengthlevel.com/images/exercises/bench-press/bench-press-800.avif",
+    muscles: { primary: ["Chest", "Shoulders", "Triceps"], secondary: [] },
+    thresholds: {
+      elbow: { min: 60, max: 180 },
+    },
+    phases: [
+      {
+        name: "Setup",
+        cues: ["Set your shoulder blades back and down."],
+        selectable: true,
+        angle: { min: 150, max: 180 },
+        motion: "rest",
+        video: "/videos/bench-press-setup.mp4",
+      },
+      {
+        name: "Descent Phase",
+        cues: ["Lower the bar to your chest with control."],
+        selectable: true,
+        angle: { min: 90, max: 149 },
+        motion: "out",
+        contraction: "eccentric",
+        video: "/videos/bench-press-descent-phase.mp4",
+      },
+      {
+        name: "Ascent Phase",
+        cues: ["Drive through your chest and fully extend your arms."],
+        selectable: true,
+        angle: { min: 90, max: 149 },
+        motion: "back",
+        contraction: "concentric",
+        video: "/videos/bench-press-ascent-phase.mp4",
+      },
+    ],
+    tutorial: "/videos/tutorial-bench-press.mp4",
+    // Tracked from the side camera: the bar has to come down to the chest and go back up to lockout.
+    // A normal rep bottoms out around 90° at the elbow, so the turn fires under 95° once the wrist is low.
+    rep: {
+      joint: "elbow",
+      hysteresis: 5,
+      confirm: {
+        turn: [{ signal: "wristHeight", below: 1 }],
+        rest: [{ signal: "wristHeight", above: 1.4 }],
+      },
+    },
+  },
+  {
+    id: "lat-raise",
+    title: "Lateral Raise",
+    imageUrl: "https://static.strengthlevel.com/images/exercises/dumbbell-lateral-raise/dumbbell-lateral-raise-800.avif",
+    muscles: { primary: ["Shoulders"], secondary: [] },
+    thresholds: {
+      shoulder: { min: 10, max: 90 },
+      elbow: { min: 150, max: 180 },
+    },
+    phases: [
+      {
+        name: "Starting Position",
+        cues: ["Stand tall with the dumbbells at your sides."],
+        selectable: false,
+        angle: { min: 0, max: 15 },
+        motion: "rest",
+        overlay: "/images/lat-raise-starting_position.png",
+      },
+      {
+        name: "Lifting Phase (Concentric)",
+        cues: ["Abducts the arms laterally on the scapular plane until approximately shoulder height."],
+        selectable: true,
+        angle: { min: 16, max: 89 },
+        motion: "out",
+        contraction: "concentric",
+        video: "/videos/lat-raise-lifting-phase-concentric.mp4",
+        overlay: "/images/lat-raise-lifting_phase_concentric.png",
+      },
+      {
+        name: "Lowering Phase (Eccentric)",
+        cues: ["Lowers the dumbbells back toward the sides under control."],
+        selectable: true,
+        angle: { min: 16, max: 89 },
+        motion: "back",
+        contraction: "eccentric",
+        video: "/videos/lat-raise-lowering-phase-eccentric.mp4",
+        overlay: "/images/lat-raise-lowering_phase_eccentric.png",
+      },
+    ],
+    tutorial: "/videos/tutorial-lat-raise.mp4",
+    rep: { joint: "shoulder", hysteresis: 5 },
+  },
+  {
+    id: "arnold-press",
+    title: "Arnold Press",
+    imageUrl: "https://static.strengthlevel.com/images/exercises/arnold-press/arnold-press-800.avif",
+    muscles: { primary: ["Biceps", "Triceps"], secondary: [] },
+    thresholds: {
+      elbow: { min: 30, max: 180 },
+    },
+    phases: [
+      {
+        name: "Setup",
+        cues: ["Palms face you, dumbbells in front of shoulders."],
+        selectable: true,
+        angle: { min: 0, max: 70 },
+        motion: "rest",
+        video: "/videos/arnold-press-setup.mp4",
+      },
+      {
+        name: "Concentric Phase",
+        cues: ["Rotate wrists as you press upwards."],
+        selectable: true,
+        angle: { min: 71, max: 165 },
+        motion: "out",
+        contraction: "concentric",
+        video: "/videos/arnold-press-concentric-phase.mp4",
+      },
+      {
+        name: "Eccentric Phase",
+        cues: ["Rotate wrists back to the starting position as you lower."],
+        selectable: true,
+        angle: { min: 71, max: 165 },
+        motion: "back",
+        contraction: "eccentric",
+        video: "/videos/arnold-press-eccentric-phase.mp4",
+      },
+    ],
+    tutorial: "/videos/tutorial-arnold-press.mp4",
+    // Tracked from the front camera: palms turn forward on the way up and back towards the face at the bottom.
+    rep: {
+      joint: "elbow",
+      hysteresis: 5,
+      confirm: {
+        turn: [
+          { signal: "wristHeight", above: 1.5 },
+          { signal: "forearmRotation", above: 120 },
+        ],
+        rest: [{ signal: "forearmRotation", below: 60 }],
+      },
+    },
+  },
+];
+
+export const getExercise = (id: string) => EXERCISES.find((ex) => ex.id === id);
+
+export const exerciseMuscles = (ex: ExerciseDefinition) => [...ex.muscles.primary, ...ex.muscles.secondary];
+
+export const findPhase = (ex: ExerciseDefinition | undefined, name: string) =>
+  ex?.phases.find((p) => p.name === name);
@@ -0,0 +1,118 @@
+export type Granularity = "Discrete" | "Continuous";
+export type Direction = "Global" | "Opposing" | "Reinforcing";
+export type Intent = "Warning" | "Correction" | "Information";
+export type Trigger = "Excessive Angle" | "Asymmetry";
+export type Control = "User-Defined" | "System-Detected";
+export type AudioMode = "Off" | "Earcon" | "Spoken" | "Both";
+
+export const GRANULARITIES: Granularity[] = ["Discrete", "Continuous"];
+export const DIRECTIONS: Direction[] = ["Global", "Opposing", "Reinforcing"];
+export const INTENTS: Intent[] = ["Warning", "Correction", "Information"];
+export const TRIGGERS: Trigger[] = ["Excessive Angle", "Asymmetry"];
+export const CONTROLS: Control[] = ["User-Defined", "System-Detected"];
+export const AUDIO_MODES: AudioMode[] = ["Off", "Earcon", "Spoken", "Both"];
+
+export const INTENT_COLOR: Record<Intent, string> = {
+  Warning: "#FF0F0F",
+  Correction: "#FA8B0C",
+  Information: "#00AAFF",
+};
+
+export const INTENSITY_LABEL = ["No", "Low", "High"] as const;
+
+/**
+ * threshold: degrees past the exercise's form band (Excessive Angle) or between the two arms (Asymmetry).
+ * sensitivity: 0–100, only used when the user sets it; otherwise the system picks it.
+ * audio: tones per intent, the spoken cue, or both, played alongside the haptics.
+ */
+export type PhaseFeedback = {
+  intensity: number;
+  granularity: Granularity;
+  direction: Direction;
+  intent: Intent;
+  trigger: Trigger;
+  threshold: number;
+  control: Control;
+  sensitivity: number;
+  audio: AudioMode;
+};
+
+export type FeedbackConfig = Record<string, PhaseFeedback>;
+
+export const MAX_THRESHOLD_DEG = 45;
+
+export const DEFAULT_PHASE_FEEDBACK: PhaseFeedback = {
+  intensity: 0,
+  granularity: "Discrete",
+  direction: "Global",
+  intent: "Correction",
+  trigger: "Excessive Angle",
+  threshold: 10,
+  control: "System-Detected",
+  sensitivity: 50,
+  audio: "Off",
+};
+
+const oneOf = <T extends string>(options: T[], v: unknown, fallback: T): T =>
+  options.includes(v as T) ? (v as T) : fallback;
+
+const clamp = (v: unknown, min: number, max: number, fallback: number) =>
+  typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+
+/** Whether a phase asked for any feedback at all, haptic or audio. */
+export const wantsFeedback = (f: PhaseFeedback | undefined): f is PhaseFeedback => !!f && (f.intensity > 0 || f.audio !== "Off");
+
+/** Fills in or corrects any field a hand-edited or older URL left out. */
+export const normalizePhaseFeedback = (raw: Partial<Record<keyof PhaseFeedback, unknown>>): PhaseFeedback => {
+  const d = DEFAULT_PHASE_FEEDBACK;
+  return {
+    intensity: Math.round(clamp(raw.intensity, 0, INTENSITY_LABEL.length - 1, d.intensity)),
+    granularity: oneOf(GRANULARITIES, raw.granularity, d.granularity),
+    direction: oneOf(DIRECTIONS, raw.direction, d.direction),
+    intent: oneOf(INTENTS, raw.intent, d.intent),
+    trigger: oneOf(TRIGGERS, raw.trigger, d.trigger),
+    threshold: clamp(raw.threshold, 0, MAX_THRESHOLD_DEG, d.threshold),
+    control: oneOf(CONTROLS, raw.control, d.control),
+    sensitivity: clamp(raw.sensitivity, 0, 100, d.sensitivity),
+    audio: oneOf(AUDIO_MODES, raw.audio, d.audio),
+  };
+};
+
+export const encodeFeedbackConfig = (phases: string[], config: FeedbackConfig) =>
+  JSON.stringify(Object.fromEntries(phases.map((p) => [p, config[p] ?? DEFAULT_PHASE_FEEDBACK])));
+
+/**
+ * Reads the `feedback` query value; links that only carry the older `phases` + `intensity` pair
+ * get the default settings at the given intensities.
+ */
+export const decodeFeedbackConfig = (raw: string, phases: string[], intensities: number[]): FeedbackConfig => {
+  let parsed: Record<string, unknown> = {};
+  if (raw) {
+    try {
+      const value = JSON.parse(raw);
+      if (value && typeof value === "object") parsed = value;
+    } catch { }
+  }
+  return Object.fromEntries(
+    phases.map((phase, i) => {
+      const entry = parsed[phase];
+      return [
+        phase,
+        normalizePhaseFeedback(
+          entry && typeof entry === "object" ? (entry as Partial<PhaseFeedback>) : { intensity: intensities[i] }
+        ),
+      ];
+    })
+  );
+};
+
+export const monitorUrl = (exerciseId: string, muscles: string, phases: string[], config: FeedbackConfig) => {
+  const intensity = phases.map((p) => config[p]?.intensity ?? 0).join(",");
+  return (
+    `/monitor?exercise=${encodeURIComponent(exerciseId)}` +
+    `&muscles=${encodeURIComponent(muscles)}` +
+    `&phases=${encodeURIComponent(phases.join(","))}` +
+    `&intensity=${encodeURIComponent(intensity)}` +
+    `&feedback=${encodeURIComponent(encodeFeedbackConfig(phases, config))}`
+  );
+};
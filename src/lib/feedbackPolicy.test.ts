@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { initialAsymmetry } from "./asymmetry";
+import type { ExerciseDefinition } from "./exercises";
+import { DEFAULT_PHASE_FEEDBACK, MAX_THRESHOLD_DEG, type PhaseFeedback } from "./feedbackConfig";
+import {
+  CONTINUOUS_INTERVAL_MS,
+  DISCRETE_REFRACTORY_MS,
+  initialPolicyState,
+  stepPolicy,
+  type PolicyState,
+} from "./feedbackPolicy";
+import { emptyReadout, type JointKey } from "./pose/jointReadout";
+
+const PHASE = "Lift";
+const THRESHOLDS: ExerciseDefinition["thresholds"] = { elbow: { min: 60, max: 120 } };
+
+const feedback = (f: Partial<PhaseFeedback> = {}): PhaseFeedback => ({ ...DEFAULT_PHASE_FEEDBACK, intensity: 2, threshold: 10, ...f });
+
+/** Form with only `joint` visible, at `angle`. */
+const formAt = (angle: number, joint: JointKey = "leftElbow") => ({
+  ...emptyReadout(),
+  [joint]: { angle, x: 0, y: 0, visible: true, correct: false },
+});
+
+const step = (f: PhaseFeedback, state: PolicyState, angle: number, now: number) =>
+  stepPolicy({ [PHASE]: f }, THRESHOLDS, state, {
+    phase: PHASE,
+    form: formAt(angle),
+    asymmetry: initialAsymmetry().reading,
+    now,
+  });
+
+describe("stepPolicy", () => {
+  describe("Discrete refractory window", () => {
+    const f = feedback({ granularity: "Discrete" });
+
+    it("cues once when a deviation starts and not again while it lasts", () => {
+      const first = step(f, initialPolicyState(), 140, 0);
+      expect(first.events).toHaveLength(1);
+      const held = step(f, first.state, 145, DISCRETE_REFRACTORY_MS * 3);
+      expect(held.events).toHaveLength(0);
+    });
+
+    it("holds back a new deviation inside the window and cues it once the window ends", () => {
+      const first = step(f, initialPolicyState(), 140, 0);
+      const back = step(f, first.state, 100, 200);
+      const early = step(f, back.state, 140, DISCRETE_REFRACTORY_MS - 1);
+      expect(early.events).toHaveLength(0);
+      const late = step(f, early.state, 140, DISCRETE_REFRACTORY_MS);
+      expect(late.events).toHaveLength(1);
+    });
+  });
+
+  describe("Continuous repetition and magnitude", () => {
+    const f = feedback({ granularity: "Continuous" });
+
+    it("repeats at the continuous interval while the deviation lasts", () => {
+      const first = step(f, initialPolicyState(), 140, 0);
+      expect(step(f, first.state, 140, CONTINUOUS_INTERVAL_MS - 1).events).toHaveLength(0);
+      expect(step(f, first.state, 140, CONTINUOUS_INTERVAL_MS).events).toHaveLength(1);
+    });
+
+    it("scales magnitude by the error over the maximum threshold", () => {
+      // 140° is 20° past the band, 10° past the threshold.
+      const [event] = step(f, initialPolicyState(), 140, 0).events;
+      expect(event.error).toBeCloseTo(10);
+      expect(event.magnitude).toBeCloseTo(10 / MAX_THRESHOLD_DEG);
+    });
+
+    it("clamps magnitude to 1", () => {
+      const [event] = step(f, initialPolicyState(), 120 + 10 + MAX_THRESHOLD_DEG * 2, 0).events;
+      expect(event.magnitude).toBe(1);
+    });
+
+    it("keeps Discrete cues at full magnitude", () => {
+      const [event] = step(feedback({ granularity: "Discrete" }), initialPolicyState(), 140, 0).events;
+      expect(event.magnitude).toBe(1);
+    });
+  });
+
+  describe("target motor", () => {
+    const target = (direction: PhaseFeedback["direction"], angle: number) =>
+      step(feedback({ direction }), initialPolicyState(), angle, 0).events[0].target;
+
+    it("Reinforcing cues towards the correction: upper arm when too open, forearm when too closed", () => {
+      expect(target("Reinforcing", 140)).toEqual({ kind: "limb", joint: "leftElbow", segment: "upper" });
+      expect(target("Reinforcing", 40)).toEqual({ kind: "limb", joint: "leftElbow", segment: "fore" });
+    });
+
+    it("Opposing cues the other segment", () => {
+      expect(target("Opposing", 140)).toEqual({ kind: "limb", joint: "leftElbow", segment: "fore" });
+      expect(target("Opposing", 40)).toEqual({ kind: "limb", joint: "leftElbow", segment: "upper" });
+    });
+
+    it("Global cues every motor", () => {
+      expect(target("Global", 140)).toEqual({ kind: "all" });
+    });
+  });
+});
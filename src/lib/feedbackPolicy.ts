@@ -0,0 +1,175 @@
+import { repAsymmetryScore, type AsymmetryReading } from "./asymmetry";
+import type { AngleRange, ExerciseDefinition, Joint } from "./exercises";
+import { INTENT_COLOR, MAX_THRESHOLD_DEG, wantsFeedback, type FeedbackConfig, type Intent, type PhaseFeedback } from "./feedbackConfig";
+import type { VibrationPattern } from "./haptics/transport";
+import type { Side } from "./signals";
+import { JOINT_ARCS, SIDE_JOINT_PAIRS, type JointKey, type JointReadout } from "./pose/jointReadout";
+
+export const INTENT_PATTERN: Record<Intent, VibrationPattern> = {
+  Warning: "double",
+  Correction: "ramp",
+  Information: "pulse",
+};
+
+/** A Discrete cue for a joint is not repeated within this time, even if the joint leaves and re-enters. */
+export const DISCRETE_REFRACTORY_MS = 1500;
+/** Continuous cues are refreshed at this rate while the deviation lasts. */
+export const CONTINUOUS_INTERVAL_MS = 250;
+
+/**
+ * Where a cue is felt. The upper-arm motor sits towards the trunk and the forearm motor away
+ * from it, so a joint that is too open closes towards the upper arm and one too closed opens
+ * towards the forearm.
+ */
+export type CueTarget = { kind: "all" } | { kind: "limb"; joint: JointKey; segment: "upper" | "fore" };
+
+export type PolicyEvent = {
+  phase: string;
+  joint: JointKey;
+  intent: Intent;
+  pattern: VibrationPattern;
+  color: string;
+  target: CueTarget;
+  /** 0–1; always 1 for Discrete feedback, proportional to the error for Continuous. */
+  magnitude: number;
+  /** Degrees past the trigger threshold. */
+  error: number;
+  /** 1 when the joint is too open, -1 when too closed. */
+  sign: 1 | -1;
+};
+
+/**
+ * Per joint: whether its current deviation has been cued, and when it was last cued. `repAt` is
+ * the last rep whose asymmetry summary has been checked.
+ */
+export type PolicyState = {
+  joints: Partial<Record<JointKey, { active: boolean; lastCue: number }>>;
+  repAt: number | null;
+};
+
+export const initialPolicyState = (): PolicyState => ({ joints: {}, repAt: null });
+
+export type PolicyInput = {
+  phase: string;
+  form: Record<JointKey, JointReadout>;
+  asymmetry: AsymmetryReading;
+  now: number;
+};
+
+type Deviation = { joint: JointKey; error: number; sign: 1 | -1 };
+
+/** User-Defined sensitivity scales the threshold: 50% leaves it, 100% halves it, 0% adds half again. */
+export const effectiveThreshold = (f: PhaseFeedback) =>
+  f.control === "User-Defined" ? (f.threshold * (150 - f.sensitivity)) / 100 : f.threshold;
+
+const outside = (angle: number, band: AngleRange) =>
+  angle > band.max ? { by: angle - band.max, sign: 1 as const } : angle < band.min ? { by: band.min - angle, sign: -1 as const } : null;
+
+const excessiveAngle = (form: Record<JointKey, JointReadout>, thresholds: ExerciseDefinition["thresholds"], limit: number) => {
+  const out: Deviation[] = [];
+  for (const j of JOINT_ARCS) {
+    const r = form[j.key];
+    const band = thresholds[j.joint];
+    if (!r.visible || !band) continue;
+    const o = outside(r.angle, band);
+    if (o && o.by > limit) out.push({ joint: j.key, error: o.by - limit, sign: o.sign });
+  }
+  return out;
+};
+
+const jointKey = (side: Side, joint: Joint) => JOINT_ARCS.find((j) => j.side === side && j.joint === joint)!.key;
+
+/** The arm behind is cued to catch up: on a rising rep it is too closed, on a falling one too open. */
+const lagging = (a: AsymmetryReading, side: Side, error: number): Deviation => ({
+  joint: jointKey(side, a.joint!),
+  error,
+  sign: a.rising ? -1 : 1,
+});
+
+const liveAsymmetry = (a: AsymmetryReading, limit: number): Deviation[] =>
+  a.joint && a.behind && a.angleDiff !== null && a.angleDiff > limit ? [lagging(a, a.behind, a.angleDiff - limit)] : [];
+
+const targetFor = (f: PhaseFeedback, d: Deviation): CueTarget => {
+  if (f.direction === "Global") return { kind: "all" };
+  const towards = d.sign > 0 ? "upper" : "fore";
+  const away = d.sign > 0 ? "fore" : "upper";
+  return { kind: "limb", joint: d.joint, segment: f.direction === "Reinforcing" ? towards : away };
+};
+
+const deviations = (
+  f: PhaseFeedback,
+  form: Record<JointKey, JointReadout>,
+  asymmetry: AsymmetryReading,
+  thresholds: ExerciseDefinition["thresholds"]
+): Deviation[] =>
+  f.trigger === "Asymmetry"
+    ? liveAsymmetry(asymmetry, effectiveThreshold(f))
+    : excessiveAngle(form, thresholds, effectiveThreshold(f));
+
+/**
+ * Phase whose Asymmetry settings apply: the current one if it uses that trigger, else the first
+ * that does. A rep ends back at rest, so its summary is judged by the phase that asked for it.
+ */
+export const asymmetryPhase = (config: FeedbackConfig, phase: string): [string, PhaseFeedback] | null => {
+  const f = config[phase];
+  if (wantsFeedback(f) && f.trigger === "Asymmetry") return [phase, f];
+  return Object.entries(config).find(([, c]) => wantsFeedback(c) && c.trigger === "Asymmetry") ?? null;
+};
+
+const toEvent = (f: PhaseFeedback, phase: string, d: Deviation): PolicyEvent => ({
+  phase,
+  joint: d.joint,
+  intent: f.intent,
+  pattern: INTENT_PATTERN[f.intent],
+  color: INTENT_COLOR[f.intent],
+  target: targetFor(f, d),
+  magnitude: f.granularity === "Continuous" ? Math.min(1, d.error / MAX_THRESHOLD_DEG) : 1,
+  error: d.error,
+  sign: d.sign,
+});
+
+/**
+ * One step of the feedback policy: finds the joints deviating under the current phase's trigger
+ * and decides which of them get a cue now. Discrete feedback cues once when a deviation starts;
+ * Continuous feedback repeats while it lasts, scaled by its size. The Asymmetry trigger also cues
+ * once after a rep whose peak timing or range of motion differed by more than the threshold.
+ */
+export const stepPolicy = (
+  config: FeedbackConfig,
+  thresholds: ExerciseDefinition["thresholds"],
+  state: PolicyState,
+  { phase, form, asymmetry, now }: PolicyInput
+): { state: PolicyState; events: PolicyEvent[] } => {
+  const f = config[phase];
+  const enabled = wantsFeedback(f);
+  const found = enabled ? deviations(f, form, asymmetry, thresholds) : [];
+  const joints: PolicyState["joints"] = {};
+  const events: PolicyEvent[] = [];
+
+  for (const d of found) {
+    const was = state.joints[d.joint];
+    const due =
+      f.granularity === "Continuous"
+        ? !was || now - was.lastCue >= CONTINUOUS_INTERVAL_MS
+        : !was?.active && (!was || now - was.lastCue >= DISCRETE_REFRACTORY_MS);
+    // A Discrete deviation that starts inside the refractory period is cued once the period ends.
+    joints[d.joint] = { active: due || !!was?.active, lastCue: due ? now : was!.lastCue };
+    if (due) events.push(toEvent(f, phase, d));
+  }
+
+  // Joints back in range keep their last cue time so the refractory period still applies.
+  for (const key of Object.keys(state.joints) as JointKey[]) {
+    if (!joints[key]) joints[key] = { active: false, lastCue: state.joints[key]!.lastCue };
+  }
+
+  const rep = asymmetry.lastRep;
+  const judge = asymmetryPhase(config, phase);
+  if (rep && rep.at !== state.repAt && asymmetry.joint && judge) {
+    const [repPhase, rf] = judge;
+    const score = repAsymmetryScore(rep);
+    const limit = effectiveThreshold(rf);
+    if (score > limit) events.push(toEvent(rf, repPhase, lagging(asymmetry, rep.behind, score - limit)));
+  }
+
+  return { state: { joints, repAt: rep?.at ?? null }, events };
+};
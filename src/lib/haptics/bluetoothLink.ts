@@ -0,0 +1,77 @@
+import type { ByteLink } from "./linkTransport";
+
+/** Nordic UART service, which the band's ESP32 firmware exposes. */
+export const UART_SERVICE = "6e400001-b5a3-f393-e0a9-e50e24dcca9e";
+const UART_RX = "6e400002-b5a3-f393-e0a9-e50e24dcca9e";
+const UART_TX = "6e400003-b5a3-f393-e0a9-e50e24dcca9e";
+
+// Web Bluetooth is not in the TypeScript DOM library yet; only what the link uses is declared.
+type Characteristic = EventTarget & {
+  value?: DataView;
+  startNotifications: () => Promise<Characteristic>;
+  writeValueWithoutResponse: (value: Uint8Array) => Promise<void>;
+};
+type GattServer = {
+  connected: boolean;
+  connect: () => Promise<GattServer>;
+  disconnect: () => void;
+  getPrimaryService: (uuid: string) => Promise<{ getCharacteristic: (uuid: string) => Promise<Characteristic> }>;
+};
+type DeviceLike = EventTarget & { gatt?: GattServer };
+type BluetoothLike = {
+  requestDevice: (options: { filters: { services: string[] }[] }) => Promise<DeviceLike>;
+};
+
+const bluetooth = () =>
+  typeof navigator === "undefined" ? undefined : (navigator as Navigator & { bluetooth?: BluetoothLike }).bluetooth;
+
+export const bluetoothSupported = () => !!bluetooth();
+
+/** BLE link over the UART service. The first `open` shows the pairing chooser; reconnects reuse the device. */
+export function createBluetoothLink(): ByteLink {
+  let device: DeviceLike | null = null;
+  let rx: Characteristic | null = null;
+  let tx: Characteristic | null = null;
+  let handlers: { onData: (bytes: Uint8Array) => void; onClose: () => void } | null = null;
+  let closing = false;
+
+  const onValue = (ev: Event) => {
+    const value = (ev.target as Characteristic).value;
+    if (value) handlers?.onData(new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)));
+  };
+  const onDisconnected = () => {
+    if (!closing) handlers?.onClose();
+  };
+
+  return {
+    open: async (h) => {
+      const api = bluetooth();
+      if (!api) throw new Error("Web Bluetooth is not available in this browser");
+      if (!device) {
+        device = await api.requestDevice({ filters: [{ services: [UART_SERVICE] }] });
+        device.addEventListener("gattserverdisconnected", onDisconnected);
+      }
+      if (!device.gatt) throw new Error("Device has no GATT server");
+
+      closing = false;
+      handlers = h;
+      const server = await device.gatt.connect();
+      const service = await server.getPrimaryService(UART_SERVICE);
+      rx = await service.getCharacteristic(UART_RX);
+      tx = await service.getCharacteristic(UART_TX);
+      tx.addEventListener("characteristicvaluechanged", onValue);
+      await tx.startNotifications();
+    },
+    write: async (bytes) => {
+      if (!rx) throw new Error("Bluetooth link is not open");
+      await rx.writeValueWithoutResponse(bytes);
+    },
+    close: async () => {
+      closing = true;
+      tx?.removeEventListener("characteristicvaluechanged", onValue);
+      rx = null;
+      tx = null;
+      if (device?.gatt?.connected) device.gatt.disconnect();
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { ExerciseDefinition } from "../exercises";
+import type { FeedbackConfig } from "../feedbackConfig";
+import { initialPolicyState, stepPolicy, type CueTarget, type PolicyEvent } from "../feedbackPolicy";
+import type { JointKey } from "../pose/jointReadout";
+import { NO_PHASE, type SessionAnalysis } from "../pose/sessionTracker";
+import type { HapticCommand, HapticTransport } from "./transport";
+
+/** Motor positions on the wearable, anatomical sides. */
+export const MOTOR = {
+  LEFT_UPPER_ARM: 0,
+  RIGHT_UPPER_ARM: 1,
+  LEFT_FOREARM: 2,
+  RIGHT_FOREARM: 3,
+} as const;
+
+/** Landmarks are mirrored for the selfie view, so the left-labelled joints are the user's right arm. */
+const ARM_MOTORS: Record<JointKey, { upper: number; fore: number }> = {
+  leftShoulder: { upper: MOTOR.RIGHT_UPPER_ARM, fore: MOTOR.RIGHT_FOREARM },
+  leftElbow: { upper: MOTOR.RIGHT_UPPER_ARM, fore: MOTOR.RIGHT_FOREARM },
+  rightShoulder: { upper: MOTOR.LEFT_UPPER_ARM, fore: MOTOR.LEFT_FOREARM },
+  rightElbow: { upper: MOTOR.LEFT_UPPER_ARM, fore: MOTOR.LEFT_FOREARM },
+};
+
+const ALL_MOTORS = Object.values(MOTOR);
+
+/** Drive level for the No / Low / High intensity picked per phase on the feedback page. */
+export const INTENSITY_AMPLITUDE = [0, 0.5, 1];
+
+const CUE_MS = 400;
+const PHASE_PULSE_MS = 150;
+
+export const motorsFor = (target: CueTarget): number[] =>
+  target.kind === "all" ? ALL_MOTORS : [ARM_MOTORS[target.joint][target.segment]];
+
+export const cueCommands = (event: PolicyEvent, intensity: number): HapticCommand[] => {
+  const amplitude = (INTENSITY_AMPLITUDE[intensity] ?? 0) * event.magnitude;
+  if (amplitude <= 0) return [];
+  return motorsFor(event.target).map((motor) => ({ motor, amplitude, durationMs: CUE_MS, pattern: event.pattern }));
+};
+
+/** A short pulse on both upper arms when a phase with feedback starts. */
+export const phaseCommands = (intensity: number): HapticCommand[] => {
+  const amplitude = INTENSITY_AMPLITUDE[intensity] ?? 0;
+  if (amplitude <= 0) return [];
+  return [MOTOR.LEFT_UPPER_ARM, MOTOR.RIGHT_UPPER_ARM].map((motor) => ({
+    motor,
+    amplitude,
+    durationMs: PHASE_PULSE_MS,
+    pattern: "pulse" as const,
+  }));
+};
+
+export type FeedbackOutput = {
+  update: (analysis: SessionAnalysis) => void;
+  /** Cues as the policy emits them, whether or not a wearable is connected. */
+  subscribe: (fn: (event: PolicyEvent) => void) => () => void;
+};
+
+/**
+ * Runs the feedback policy on session updates and sends the resulting cues to the wearable. A
+ * motor that is still playing is not sent another command.
+ */
+export function createFeedbackOutput(
+  transport: HapticTransport,
+  thresholds: ExerciseDefinition["thresholds"],
+  config: FeedbackConfig
+): FeedbackOutput {
+  const busyUntil = new Map<number, number>();
+  const listeners = new Set<(event: PolicyEvent) => void>();
+  let policy = initialPolicyState();
+  let prevPhase = NO_PHASE;
+
+  const send = (commands: HapticCommand[], now: number) => {
+    for (const command of commands) {
+      if ((busyUntil.get(command.motor) ?? 0) > now) continue;
+      busyUntil.set(command.motor, now + command.durationMs);
+      transport.send(command).catch((e) => console.error(`${transport.name} haptic send error:`, e));
+    }
+  };
+
+  return {
+    update: (analysis) => {
+      const now = performance.now();
+      const step = stepPolicy(config, thresholds, policy, {
+        phase: analysis.phase,
+        form: analysis.form,
+        asymmetry: analysis.asymmetry,
+        now,
+      });
+      policy = step.state;
+      const entered = analysis.phase !== NO_PHASE && analysis.phase !== prevPhase;
+      prevPhase = analysis.phase;
+      for (const event of step.events) listeners.forEach((fn) => fn(event));
+      if (!transport.isConnected()) return;
+
+      if (entered) send(phaseCommands(config[analysis.phase]?.intensity ?? 0), now);
+      for (const event of step.events) send(cueCommands(event, config[event.phase]?.intensity ?? 0), now);
+    },
+    subscribe: (fn) => {
+      listeners.add(fn);
+      return () => {
+        listeners.delete(fn);
+      };
+    },
+  };
+}
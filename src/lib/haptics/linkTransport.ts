@@ -0,0 +1,156 @@
+import {
+  createFrameDecoder,
+  encodeFrame,
+  ERROR_CODE,
+  OPCODE,
+  playPatternPayload,
+  PROTOCOL_VERSION,
+  type Frame,
+} from "./protocol";
+import type { HapticTransport, TransportStatus } from "./transport";
+
+/** A raw byte pipe to the band. Serial, Bluetooth and the loopback bridge each provide one. */
+export type ByteLink = {
+  open: (handlers: { onData: (bytes: Uint8Array) => void; onClose: () => void }) => Promise<void>;
+  write: (bytes: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+export const HEARTBEAT_MS = 2000;
+/** Silence longer than this means the band is gone even if the link has not reported it. */
+export const LINK_TIMEOUT_MS = 6000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+
+const errorName = (code: number) =>
+  (Object.keys(ERROR_CODE) as (keyof typeof ERROR_CODE)[]).find((k) => ERROR_CODE[k] === code) ?? `code ${code}`;
+
+/**
+ * Speaks the wearable protocol over any ByteLink: heartbeats, battery queries and automatic
+ * reconnection with backoff until `disconnect` is called.
+ */
+export function createLinkTransport(name: string, link: ByteLink): HapticTransport {
+  const listeners = new Set<(status: TransportStatus) => void>();
+  let status: TransportStatus = { state: "disconnected", battery: null, error: null };
+  let seq = 0;
+  let lastHeard = 0;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let wanted = false;
+
+  const update = (patch: Partial<TransportStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach((fn) => fn(status));
+  };
+
+  const write = (opcode: number, payload: ArrayLike<number> = []) => {
+    seq = (seq + 1) & 0xff;
+    return link.write(encodeFrame(opcode, seq, payload));
+  };
+
+  const decode = createFrameDecoder();
+  const onFrame = (frame: Frame) => {
+    lastHeard = performance.now();
+    switch (frame.opcode) {
+      case OPCODE.BATTERY:
+        update({ battery: frame.payload[0] ?? null });
+        break;
+      case OPCODE.HEARTBEAT_ACK:
+        if (frame.payload[0] !== PROTOCOL_VERSION) {
+          update({ error: `Band speaks protocol v${frame.payload[0]}, expected v${PROTOCOL_VERSION}` });
+        }
+        break;
+      case OPCODE.ERROR:
+        update({ error: `Band reported ${errorName(frame.payload[0])}` });
+        break;
+    }
+  };
+
+  const stopTimers = () => {
+    if (heartbeat) clearInterval(heartbeat);
+    if (retry) clearTimeout(retry);
+    heartbeat = null;
+    retry = null;
+  };
+
+  const lost = () => {
+    stopTimers();
+    if (!wanted) {
+      update({ state: "disconnected" });
+      return;
+    }
+    update({ state: "reconnecting" });
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts);
+    attempts++;
+    retry = setTimeout(() => {
+      open().catch(() => lost());
+    }, delay);
+  };
+
+  const open = async () => {
+    // Until the handshake is through, a failure is reported by throwing rather than as a lost link.
+    let up = false;
+    await link.open({
+      onData: (bytes) => decode(bytes).forEach(onFrame),
+      onClose: () => {
+        if (up) lost();
+      },
+    });
+    try {
+      lastHeard = performance.now();
+      update({ state: "connected", error: null });
+      await write(OPCODE.HEARTBEAT);
+      await write(OPCODE.BATTERY_QUERY);
+    } catch (e) {
+      // Left open, the port or socket would refuse the next attempt as already open.
+      await link.close().catch(() => {});
+      throw e;
+    }
+    up = true;
+    attempts = 0;
+    heartbeat = setInterval(() => {
+      if (performance.now() - lastHeard > LINK_TIMEOUT_MS) {
+        link.close().catch(() => {});
+        lost();
+        return;
+      }
+      write(OPCODE.HEARTBEAT).catch(() => {});
+    }, HEARTBEAT_MS);
+  };
+
+  return {
+    name,
+    isConnected: () => status.state === "connected",
+    connect: async () => {
+      wanted = true;
+      attempts = 0;
+      update({ state: "connecting", error: null });
+      try {
+        await open();
+      } catch (e) {
+        wanted = false;
+        update({ state: "disconnected", error: e instanceof Error ? e.message : String(e) });
+        throw e;
+      }
+    },
+    send: async ({ motor, amplitude, durationMs, pattern }) => {
+      if (status.state !== "connected") throw new Error(`${name} is not connected`);
+      await write(OPCODE.PLAY_PATTERN, playPatternPayload(motor, amplitude, durationMs, pattern));
+    },
+    disconnect: async () => {
+      wanted = false;
+      stopTimers();
+      if (status.state === "connected") await write(OPCODE.STOP_ALL).catch(() => {});
+      await link.close().catch(() => {});
+      update({ state: "disconnected" });
+    },
+    onStatus: (fn) => {
+      listeners.add(fn);
+      fn(status);
+      return () => {
+        listeners.delete(fn);
+      };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createFrameDecoder, encodeFrame, OPCODE, playPatternPayload, PROTOCOL_VERSION, setMotorPayload } from "./protocol";
+
+describe("frame codec", () => {
+  it("round-trips a frame with its header and payload", () => {
+    const payload = playPatternPayload(2, 0.5, 300, "double");
+    const [frame] = createFrameDecoder()(encodeFrame(OPCODE.PLAY_PATTERN, 7, payload));
+    expect(frame).toEqual({ version: PROTOCOL_VERSION, opcode: OPCODE.PLAY_PATTERN, seq: 7, payload: Uint8Array.from(payload) });
+  });
+
+  it("encodes the duration little-endian and clamps the amplitude to a byte", () => {
+    expect(playPatternPayload(1, 2, 0x1234, "ramp")).toEqual([1, 255, 0x34, 0x12, 2]);
+    expect(setMotorPayload(0, -1)).toEqual([0, 0]);
+  });
+
+  it("wraps the sequence number at 256", () => {
+    expect(encodeFrame(OPCODE.HEARTBEAT, 257)[3]).toBe(1);
+  });
+
+  it("drops a frame whose checksum does not match", () => {
+    const bad = encodeFrame(OPCODE.SET_MOTOR, 1, setMotorPayload(0, 1));
+    bad[bad.length - 1] ^= 0xff;
+    expect(createFrameDecoder()(bad)).toEqual([]);
+  });
+
+  it("resynchronises on the next frame after noise and a corrupt frame", () => {
+    const bad = encodeFrame(OPCODE.STOP_ALL, 1);
+    bad[2] = OPCODE.HEARTBEAT;
+    const good = encodeFrame(OPCODE.BATTERY_QUERY, 2);
+    const frames = createFrameDecoder()(Uint8Array.from([0x00, 0x13, ...bad, ...good]));
+    expect(frames.map((f) => f.seq)).toEqual([2]);
+  });
+
+  it("reassembles frames split across chunks and separates merged ones", () => {
+    const a = encodeFrame(OPCODE.SET_MOTOR, 3, setMotorPayload(1, 1));
+    const b = encodeFrame(OPCODE.HEARTBEAT, 4);
+    const stream = Uint8Array.from([...a, ...b]);
+    const decode = createFrameDecoder();
+    expect(decode(stream.slice(0, 2))).toEqual([]);
+    expect(decode(stream.slice(2, a.length + 1)).map((f) => f.seq)).toEqual([3]);
+    expect(decode(stream.slice(a.length + 1)).map((f) => f.seq)).toEqual([4]);
+  });
+});
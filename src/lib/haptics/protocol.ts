@@ -0,0 +1,117 @@
+import type { VibrationPattern } from "./transport";
+
+/**
+ * Wearable command protocol, version 1. Every message is one frame:
+ *
+ *   0xA5 | version | opcode | seq | length | payload (length bytes) | checksum
+ *
+ * `seq` wraps at 256 and is echoed in ACKs; the checksum is the XOR of every byte between the
+ * magic and the checksum. Multi-byte fields are little-endian. A device that receives a version
+ * it does not speak answers ERROR(UNSUPPORTED_VERSION) and ignores the frame.
+ *
+ * Host → device
+ *   0x01 SET_MOTOR      motor u8, amplitude u8 (0–255); holds until changed, 0 stops the motor
+ *   0x02 PLAY_PATTERN   motor u8, amplitude u8, duration u16 (ms), pattern u8 (0 pulse, 1 double, 2 ramp)
+ *   0x03 STOP_ALL
+ *   0x04 HEARTBEAT
+ *   0x05 BATTERY_QUERY
+ *
+ * Device → host
+ *   0x80 ACK            acknowledged seq u8
+ *   0x84 HEARTBEAT_ACK  protocol version u8
+ *   0x85 BATTERY        charge u8 (percent)
+ *   0x8F ERROR          code u8 (see ERROR_CODE), offending seq u8
+ */
+export const PROTOCOL_VERSION = 1;
+export const FRAME_MAGIC = 0xa5;
+const HEADER_BYTES = 5;
+
+export const OPCODE = {
+  SET_MOTOR: 0x01,
+  PLAY_PATTERN: 0x02,
+  STOP_ALL: 0x03,
+  HEARTBEAT: 0x04,
+  BATTERY_QUERY: 0x05,
+  ACK: 0x80,
+  HEARTBEAT_ACK: 0x84,
+  BATTERY: 0x85,
+  ERROR: 0x8f,
+} as const;
+
+export const ERROR_CODE = {
+  UNKNOWN_OPCODE: 1,
+  BAD_CHECKSUM: 2,
+  BAD_MOTOR: 3,
+  UNSUPPORTED_VERSION: 4,
+} as const;
+
+export const PATTERN_CODE: Record<VibrationPattern, number> = { pulse: 0, double: 1, ramp: 2 };
+
+export type Frame = { version: number; opcode: number; seq: number; payload: Uint8Array };
+
+const checksum = (bytes: Uint8Array, from: number, to: number) => {
+  let x = 0;
+  for (let i = from; i < to; i++) x ^= bytes[i];
+  return x;
+};
+
+export const encodeFrame = (opcode: number, seq: number, payload: ArrayLike<number> = []): Uint8Array => {
+  const out = new Uint8Array(HEADER_BYTES + payload.length + 1);
+  out[0] = FRAME_MAGIC;
+  out[1] = PROTOCOL_VERSION;
+  out[2] = opcode;
+  out[3] = seq & 0xff;
+  out[4] = payload.length;
+  out.set(Array.from(payload), HEADER_BYTES);
+  out[out.length - 1] = checksum(out, 1, out.length - 1);
+  return out;
+};
+
+const toByte = (amplitude: number) => Math.round(Math.max(0, Math.min(1, amplitude)) * 255);
+
+export const setMotorPayload = (motor: number, amplitude: number) => [motor, toByte(amplitude)];
+
+export const playPatternPayload = (motor: number, amplitude: number, durationMs: number, pattern: VibrationPattern) => {
+  const d = Math.max(0, Math.min(0xffff, Math.round(durationMs)));
+  return [motor, toByte(amplitude), d & 0xff, d >> 8, PATTERN_CODE[pattern]];
+};
+
+/**
+ * Reassembles frames from a byte stream that may split or merge them. Bytes before a magic and
+ * frames with a bad checksum are dropped, so the decoder resynchronises after line noise.
+ */
+export function createFrameDecoder() {
+  let buffer = new Uint8Array(0);
+
+  return (chunk: Uint8Array): Frame[] => {
+    const merged = new Uint8Array(buffer.length + chunk.length);
+    merged.set(buffer);
+    merged.set(chunk, buffer.length);
+
+    const frames: Frame[] = [];
+    let i = 0;
+    while (i < merged.length) {
+      if (merged[i] !== FRAME_MAGIC) {
+        i++;
+        continue;
+      }
+      if (merged.length - i < HEADER_BYTES) break;
+      const end = i + HEADER_BYTES + merged[i + 4] + 1;
+      if (end > merged.length) break;
+      if (checksum(merged, i + 1, end - 1) !== merged[end - 1]) {
+        i++;
+        continue;
+      }
+      frames.push({
+        version: merged[i + 1],
+        opcode: merged[i + 2],
+        seq: merged[i + 3],
+        payload: merged.slice(i + HEADER_BYTES, end - 1),
+      });
+      i = end;
+    }
+
+    buffer = merged.slice(i);
+    return frames;
+  };
+}
@@ -0,0 +1,66 @@
+import type { ByteLink } from "./linkTransport";
+
+// Web Serial is not in the TypeScript DOM library yet; only what the link uses is declared.
+type SerialPortLike = {
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+};
+type SerialLike = {
+  getPorts: () => Promise<SerialPortLike[]>;
+  requestPort: () => Promise<SerialPortLike>;
+};
+
+const serial = () => (typeof navigator === "undefined" ? undefined : (navigator as Navigator & { serial?: SerialLike }).serial);
+
+export const serialSupported = () => !!serial();
+
+/** USB serial to the band's ESP32. The first `open` prompts for a port; reconnects reuse it. */
+export function createSerialLink({ baudRate = 115200 }: { baudRate?: number } = {}): ByteLink {
+  let port: SerialPortLike | null = null;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  let closing = false;
+
+  return {
+    open: async ({ onData, onClose }) => {
+      const api = serial();
+      if (!api) throw new Error("Web Serial is not available in this browser");
+      if (!port) port = (await api.getPorts())[0] ?? (await api.requestPort());
+      await port.open({ baudRate });
+      if (!port.readable || !port.writable) throw new Error("Serial port has no streams");
+
+      closing = false;
+      writer = port.writable.getWriter();
+      const r = port.readable.getReader();
+      reader = r;
+      (async () => {
+        try {
+          for (;;) {
+            const { value, done } = await r.read();
+            if (done) break;
+            if (value) onData(value);
+          }
+        } catch {
+          // A read error means the cable was pulled; treated like a close below.
+        } finally {
+          if (!closing) onClose();
+        }
+      })();
+    },
+    write: async (bytes) => {
+      if (!writer) throw new Error("Serial port is not open");
+      await writer.write(bytes);
+    },
+    close: async () => {
+      closing = true;
+      await reader?.cancel().catch(() => {});
+      reader?.releaseLock();
+      writer?.releaseLock();
+      reader = null;
+      writer = null;
+      await port?.close().catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { HapticCommand, HapticTransport } from "./transport";
+
+export type SimulatedPulse = HapticCommand & { at: number };
+
+export type SimulatedTransport = HapticTransport & {
+  motors: number;
+  subscribe: (fn: (pulse: SimulatedPulse) => void) => () => void;
+  history: () => SimulatedPulse[];
+};
+
+const HISTORY_LIMIT = 200;
+
+/** In-browser stand-in for the wearable, for working on feedback without hardware. */
+export function createSimulatedTransport({ motors = 4 }: { motors?: number } = {}): SimulatedTransport {
+  const listeners = new Set<(pulse: SimulatedPulse) => void>();
+  let log: SimulatedPulse[] = [];
+  let connected = false;
+
+  return {
+    name: "Simulated",
+    motors,
+    isConnected: () => connected,
+    connect: async () => {
+      connected = true;
+    },
+    send: async (command) => {
+      if (!connected) throw new Error("Simulated wearable is not connected");
+      if (command.motor < 0 || command.motor >= motors) throw new Error(`No motor ${command.motor}`);
+      const pulse = { ...command, at: performance.now() };
+      log = [...log.slice(-(HISTORY_LIMIT - 1)), pulse];
+      listeners.forEach((fn) => fn(pulse));
+    },
+    disconnect: async () => {
+      connected = false;
+    },
+    subscribe: (fn) => {
+      listeners.add(fn);
+      return () => {
+        listeners.delete(fn);
+      };
+    },
+    history: () => log,
+  };
+}
+
+export const isSimulated = (transport: HapticTransport): transport is SimulatedTransport =>
+  "history" in transport && "subscribe" in transport;
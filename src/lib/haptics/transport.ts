@@ -0,0 +1,29 @@
+export type VibrationPattern = "pulse" | "double" | "ramp";
+
+export type HapticCommand = {
+  motor: number;
+  /** 0–1 of the motor's full drive. */
+  amplitude: number;
+  durationMs: number;
+  pattern: VibrationPattern;
+};
+
+/** How commands reach a wearable; swapped without touching the feedback logic. */
+export type HapticTransport = {
+  readonly name: string;
+  isConnected: () => boolean;
+  connect: () => Promise<void>;
+  send: (command: HapticCommand) => Promise<void>;
+  disconnect: () => Promise<void>;
+  /** Hardware transports report pairing, reconnects and battery; the simulator has nothing to report. */
+  onStatus?: (fn: (status: TransportStatus) => void) => () => void;
+};
+
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting";
+
+export type TransportStatus = {
+  state: ConnectionState;
+  /** Percent, from the last battery report. */
+  battery: number | null;
+  error: string | null;
+};
@@ -0,0 +1,28 @@
+import { bluetoothSupported, createBluetoothLink } from "./bluetoothLink";
+import { createLinkTransport } from "./linkTransport";
+import { createSerialLink, serialSupported } from "./serialLink";
+import { createSimulatedTransport } from "./simulatedTransport";
+import type { HapticTransport } from "./transport";
+import { createWebSocketLink } from "./websocketLink";
+
+export type TransportKind = "simulated" | "serial" | "bluetooth" | "loopback";
+
+export const TRANSPORT_OPTIONS: { kind: TransportKind; label: string; supported: () => boolean }[] = [
+  { kind: "simulated", label: "Simulated", supported: () => true },
+  { kind: "serial", label: "USB Serial", supported: serialSupported },
+  { kind: "bluetooth", label: "Bluetooth", supported: bluetoothSupported },
+  { kind: "loopback", label: "Loopback", supported: () => typeof WebSocket !== "undefined" },
+];
+
+export const createTransport = (kind: TransportKind): HapticTransport => {
+  switch (kind) {
+    case "simulated":
+      return createSimulatedTransport();
+    case "serial":
+      return createLinkTransport("USB Serial", createSerialLink());
+    case "bluetooth":
+      return createLinkTransport("Bluetooth", createBluetoothLink());
+    case "loopback":
+      return createLinkTransport("Loopback", createWebSocketLink());
+  }
+};
@@ -0,0 +1,40 @@
+import type { ByteLink } from "./linkTransport";
+
+/** Where `npm run wearable:loopback` listens. */
+export const LOOPBACK_URL = "ws://localhost:8787";
+
+/** Binary WebSocket link, used to reach the loopback stand-in or a bridge in front of a real band. */
+export function createWebSocketLink(url = LOOPBACK_URL): ByteLink {
+  let socket: WebSocket | null = null;
+  let closing = false;
+
+  return {
+    open: ({ onData, onClose }) =>
+      new Promise((resolve, reject) => {
+        closing = false;
+        const ws = new WebSocket(url);
+        ws.binaryType = "arraybuffer";
+        ws.onopen = () => {
+          socket = ws;
+          resolve();
+        };
+        ws.onerror = () => reject(new Error(`Cannot reach ${url}`));
+        ws.onmessage = (ev) => {
+          if (ev.data instanceof ArrayBuffer) onData(new Uint8Array(ev.data));
+        };
+        ws.onclose = () => {
+          if (socket === ws && !closing) onClose();
+          if (socket === ws) socket = null;
+        };
+      }),
+    write: async (bytes) => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) throw new Error("WebSocket link is not open");
+      socket.send(bytes);
+    },
+    close: async () => {
+      closing = true;
+      socket?.close();
+      socket = null;
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { NO_PHASE } from "../pose/sessionTracker";
+import { agreement, detectedBoundaries, emptyLabels, MATCH_WINDOW_MS, poolAgreement, summarizeAgreement, type SessionLabels } from "./annotations";
+import type { RepRecord, SessionRecord } from "./sessionRecord";
+
+const rep = (index: number): RepRecord => ({ index, startedAt: 0, endedAt: 0, min: {}, max: {}, phaseMs: {} });
+
+const record = (r: Partial<SessionRecord>): SessionRecord => ({
+  id: "s1",
+  exerciseId: "lat-raise",
+  exerciseTitle: "Lateral Raise",
+  muscles: [],
+  phases: [],
+  feedback: {},
+  calibrated: false,
+  activationPct: 0,
+  thresholds: {},
+  startedAt: 0,
+  endedAt: 0,
+  durationMs: 0,
+  phaseMs: {},
+  inBand: {},
+  reps: [],
+  violations: [],
+  cues: [],
+  samples: [],
+  ...r,
+});
+
+const labels = (l: Partial<SessionLabels>): SessionLabels => ({ ...emptyLabels("s1"), ...l });
+
+/** Detected boundaries: Up at 1000, Down at 2000, Up at 3000. */
+const SAMPLES: SessionRecord["samples"] = [
+  { t: 0, phase: NO_PHASE, angles: {} },
+  { t: 1000, phase: "Up", angles: {} },
+  { t: 1500, phase: "Up", angles: {} },
+  { t: 2000, phase: "Down", angles: {} },
+  { t: 3000, phase: "Up", angles: {} },
+];
+
+describe("annotation agreement", () => {
+  it("finds phase boundaries where the detected phase changes", () => {
+    expect(detectedBoundaries(record({ samples: SAMPLES }))).toEqual([
+      { at: 1000, phase: "Up" },
+      { at: 2000, phase: "Down" },
+      { at: 3000, phase: "Up" },
+    ]);
+  });
+
+  it("pairs each labelled boundary with the closest unused detection of the same phase", () => {
+    const m = agreement(
+      record({ samples: SAMPLES }),
+      labels({
+        phases: [
+          { at: 1100, phase: "Up" },
+          { at: 1200, phase: "Up" },
+          { at: 1900, phase: "Down" },
+          { at: 2000 + MATCH_WINDOW_MS + 1, phase: "Down" },
+        ],
+      })
+    );
+    // The second Up label cannot reuse the detection at 1000; the one at 3000 is out of reach too.
+    expect(m.phaseOffsetsMs.sort((a, b) => a - b)).toEqual([-100, 100]);
+    expect(m.phaseBoundaries).toBe(4);
+    expect(summarizeAgreement(m)).toMatchObject({ meanAbsPhaseOffsetMs: 100, medianAbsPhaseOffsetMs: 100, phaseHitRate: 0.5 });
+  });
+
+  it("scores violations by joint within the match window", () => {
+    const m = agreement(
+      record({
+        violations: [
+          { at: 1000, phase: "Up", joint: "leftShoulder", angle: 100 },
+          { at: 1200, phase: "Up", joint: "rightShoulder", angle: 100 },
+          { at: 5000, phase: "Up", joint: "leftShoulder", angle: 100 },
+        ],
+      }),
+      labels({
+        violations: [
+          { at: 1100, joint: "leftShoulder" },
+          { at: 1100, joint: "leftElbow" },
+        ],
+      })
+    );
+    expect(m).toMatchObject({ truePositives: 1, detectedViolations: 3, labelledViolations: 2 });
+    const s = summarizeAgreement(m);
+    expect(s.precision).toBeCloseTo(1 / 3);
+    expect(s.recall).toBeCloseTo(1 / 2);
+  });
+
+  it("reports the signed rep count error", () => {
+    const m = agreement(record({ reps: [rep(1), rep(2), rep(3)] }), labels({ reps: [{ startedAt: 0, endedAt: 1 }] }));
+    expect(m).toMatchObject({ labelledReps: 1, detectedReps: 3, repCountError: 2, absRepCountError: 2 });
+  });
+
+  it("pools sessions so over- and under-counting do not cancel", () => {
+    const over = agreement(record({ reps: [rep(1), rep(2)] }), labels({ reps: [{ startedAt: 0, endedAt: 1 }] }));
+    const under = agreement(record({ reps: [] }), labels({ reps: [{ startedAt: 0, endedAt: 1 }] }));
+    const pooled = poolAgreement([over, under]);
+    expect(pooled).toMatchObject({ sessions: 2, repCountError: 0, absRepCountError: 2 });
+    expect(summarizeAgreement(pooled).meanAbsRepCountError).toBe(1);
+  });
+
+  it("leaves ratios empty when there is nothing to divide by", () => {
+    expect(summarizeAgreement(agreement(record({}), labels({})))).toMatchObject({
+      meanAbsPhaseOffsetMs: null,
+      medianAbsPhaseOffsetMs: null,
+      phaseHitRate: null,
+      precision: null,
+      recall: null,
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import type { JointKey } from "../pose/jointReadout";
+import { NO_PHASE } from "../pose/sessionTracker";
+import type { SessionRecord } from "./sessionRecord";
+
+/** Hand-marked ground truth for one session. Times are on the session record's clock. */
+export type LabelledRep = { startedAt: number; endedAt: number };
+
+/** The moment the movement enters `phase`. */
+export type PhaseBoundary = { at: number; phase: string };
+
+export type LabelledViolation = { at: number; joint: JointKey };
+
+export type SessionLabels = {
+  sessionId: string;
+  updatedAt: number;
+  reps: LabelledRep[];
+  /** A rep whose start is marked but whose end is not yet. */
+  openRepAt: number | null;
+  phases: PhaseBoundary[];
+  violations: LabelledViolation[];
+};
+
+/** Detections further than this from a label do not count as finding it. */
+export const MATCH_WINDOW_MS = 1000;
+
+export type AgreementMetrics = {
+  sessions: number;
+  labelledReps: number;
+  detectedReps: number;
+  /** Detected minus labelled. */
+  repCountError: number;
+  /** Summed per session, so over- and under-counting in different sessions do not cancel. */
+  absRepCountError: number;
+  /** Signed offsets, detected minus labelled, of each labelled phase boundary that was detected. */
+  phaseOffsetsMs: number[];
+  phaseBoundaries: number;
+  truePositives: number;
+  detectedViolations: number;
+  labelledViolations: number;
+};
+
+export type AgreementSummary = {
+  meanAbsRepCountError: number | null;
+  meanAbsPhaseOffsetMs: number | null;
+  medianAbsPhaseOffsetMs: number | null;
+  /** Share of labelled phase boundaries that had a detection in the match window. */
+  phaseHitRate: number | null;
+  precision: number | null;
+  recall: number | null;
+};
+
+export const emptyLabels = (sessionId: string): SessionLabels => ({
+  sessionId,
+  updatedAt: Date.now(),
+  reps: [],
+  openRepAt: null,
+  phases: [],
+  violations: [],
+});
+
+/** Where the automatic tracker changed phase, from the stored samples. */
+export const detectedBoundaries = (record: SessionRecord): PhaseBoundary[] => {
+  const out: PhaseBoundary[] = [];
+  let prev: string | undefined;
+  for (const s of record.samples) {
+    if (s.phase !== prev && s.phase !== NO_PHASE) out.push({ at: s.t, phase: s.phase });
+    prev = s.phase;
+  }
+  return out;
+};
+
+/**
+ * Pairs each label with the nearest unused candidate within the match window, closest pairs first,
+ * so one detection can never account for two labels.
+ */
+const matchPairs = <L extends { at: number }, D extends { at: number }>(
+  labels: L[],
+  detections: D[],
+  same: (l: L, d: D) => boolean
+) => {
+  const pairs: { l: number; d: number; gap: number }[] = [];
+  labels.forEach((l, li) =>
+    detections.forEach((d, di) => {
+      const gap = Math.abs(d.at - l.at);
+      if (gap <= MATCH_WINDOW_MS && same(l, d)) pairs.push({ l: li, d: di, gap });
+    })
+  );
+  pairs.sort((a, b) => a.gap - b.gap);
+  const usedL = new Set<number>();
+  const usedD = new Set<number>();
+  const matched: [L, D][] = [];
+  for (const p of pairs) {
+    if (usedL.has(p.l) || usedD.has(p.d)) continue;
+    usedL.add(p.l);
+    usedD.add(p.d);
+    matched.push([labels[p.l], detections[p.d]]);
+  }
+  return matched;
+};
+
+export const agreement = (record: SessionRecord, labels: SessionLabels): AgreementMetrics => {
+  const phases = matchPairs(labels.phases, detectedBoundaries(record), (l, d) => l.phase === d.phase);
+  const violations = matchPairs(labels.violations, record.violations, (l, d) => l.joint === d.joint);
+  return {
+    sessions: 1,
+    labelledReps: labels.reps.length,
+    detectedReps: record.reps.length,
+    repCountError: record.reps.length - labels.reps.length,
+    absRepCountError: Math.abs(record.reps.length - labels.reps.length),
+    phaseOffsetsMs: phases.map(([l, d]) => d.at - l.at),
+    phaseBoundaries: labels.phases.length,
+    truePositives: violations.length,
+    detectedViolations: record.violations.length,
+    labelledViolations: labels.violations.length,
+  };
+};
+
+/** Pools several sessions' metrics, so every boundary and event weighs the same. */
+export const poolAgreement = (metrics: AgreementMetrics[]): AgreementMetrics =>
+  metrics.reduce<AgreementMetrics>(
+    (acc, m) => ({
+      sessions: acc.sessions + m.sessions,
+      labelledReps: acc.labelledReps + m.labelledReps,
+      detectedReps: acc.detectedReps + m.detectedReps,
+      repCountError: acc.repCountError + m.repCountError,
+      absRepCountError: acc.absRepCountError + m.absRepCountError,
+      phaseOffsetsMs: [...acc.phaseOffsetsMs, ...m.phaseOffsetsMs],
+      phaseBoundaries: acc.phaseBoundaries + m.phaseBoundaries,
+      truePositives: acc.truePositives + m.truePositives,
+      detectedViolations: acc.detectedViolations + m.detectedViolations,
+      labelledViolations: acc.labelledViolations + m.labelledViolations,
+    }),
+    {
+      sessions: 0,
+      labelledReps: 0,
+      detectedReps: 0,
+      repCountError: 0,
+      absRepCountError: 0,
+      phaseOffsetsMs: [],
+      phaseBoundaries: 0,
+      truePositives: 0,
+      detectedViolations: 0,
+      labelledViolations: 0,
+    }
+  );
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : null);
+
+export const summarizeAgreement = (m: AgreementMetrics): AgreementSummary => {
+  const abs = m.phaseOffsetsMs.map(Math.abs).sort((a, b) => a - b);
+  const mid = abs.length >> 1;
+  return {
+    meanAbsRepCountError: ratio(m.absRepCountError, m.sessions),
+    meanAbsPhaseOffsetMs: ratio(abs.reduce((a, b) => a + b, 0), abs.length),
+    medianAbsPhaseOffsetMs: abs.length ? (abs.length % 2 ? abs[mid] : (abs[mid - 1] + abs[mid]) / 2) : null,
+    phaseHitRate: ratio(abs.length, m.phaseBoundaries),
+    precision: ratio(m.truePositives, m.detectedViolations),
+    recall: ratio(m.truePositives, m.labelledViolations),
+  };
+};
@@ -0,0 +1,97 @@
+import type { FeedbackConfig, Intent } from "../feedbackConfig";
+import type { AngleRange, Joint } from "../exercises";
+import type { CameraId } from "../pose/cameraPipeline";
+import type { JointKey } from "../pose/jointReadout";
+
+/**
+ * Layout of exported session data. Bump the version whenever a column or field changes meaning,
+ * is renamed or is removed; adding one at the end does not need a bump.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const POSE_LANDMARK_COUNT = 33;
+export const LANDMARK_FIELDS = ["x", "y", "z", "visibility"] as const;
+export const EXPORT_CAMERAS: CameraId[] = ["front", "side"];
+
+/**
+ * Joints as exported, named by the user's own side like the app's labels. In the app, landmarks
+ * are mirrored for the selfie view, so the `leftShoulder` key is the user's right shoulder.
+ */
+export type ExportJoint = "left_shoulder" | "right_shoulder" | "left_elbow" | "right_elbow";
+
+export const EXPORT_JOINT_NAME: Record<JointKey, ExportJoint> = {
+  leftShoulder: "right_shoulder",
+  rightShoulder: "left_shoulder",
+  leftElbow: "right_elbow",
+  rightElbow: "left_elbow",
+};
+
+/** In column order: left_shoulder, right_shoulder, left_elbow, right_elbow. */
+export const EXPORT_JOINTS: JointKey[] = ["rightShoulder", "leftShoulder", "rightElbow", "leftElbow"];
+
+/**
+ * One row of `frames.csv`. Angles are fused degrees, empty when the joint was not visible.
+ * Landmark columns are named `<camera>_<index>_<field>`, e.g. `front_13_visibility`, with indices
+ * in MediaPipe pose order and x/y normalised to the camera image as recorded, not mirrored, so
+ * `left` landmarks are the user's left like the joint columns; empty when the camera had no pose.
+ * `<camera>_captured_at` is when that camera's frame was grabbed, on the clock of recorded video.
+ */
+export type FrameRow = {
+  session_id: string;
+  /** Epoch milliseconds. */
+  timestamp: number;
+  /** Milliseconds since the session started. */
+  t_ms: number;
+  phase: string;
+} & Record<ExportJoint, number | null> &
+  Record<`${CameraId}_${number}_${(typeof LANDMARK_FIELDS)[number]}`, number | null> &
+  Record<`${CameraId}_captured_at`, number | null>;
+
+export type EventType = "phase" | "rep_start" | "rep_end" | "violation" | "cue";
+
+/** One row of `events.csv`, and one entry of a session JSON's `events`. */
+export type EventRow = {
+  session_id: string;
+  timestamp: number;
+  t_ms: number;
+  event: EventType;
+  /** Phase entered for `phase`, the phase at the time otherwise. */
+  phase: string;
+  /** Rep number for rep events. */
+  rep: number | null;
+  joint: ExportJoint | null;
+  /** Joint angle for violations, degrees past the threshold for cues. */
+  value: number | null;
+  intent: Intent | null;
+};
+
+/** Contents of `sessions/<id>.json`. */
+export type SessionExport = {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  session: {
+    id: string;
+    exerciseId: string;
+    exerciseTitle: string;
+    startedAt: number;
+    endedAt: number;
+    durationMs: number;
+    muscles: string[];
+    phases: string[];
+    calibrated: boolean;
+    thresholds: Partial<Record<Joint, AngleRange>>;
+    activationPct: number;
+    /** Completed sets for hold exercises. */
+    repCount: number;
+  };
+  feedback: FeedbackConfig;
+  events: EventRow[];
+};
+
+/** `manifest.json` at the root of a bundle. */
+export type BundleManifest = {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  app: "wearable-app";
+  createdAt: string;
+  sessions: { id: string; exerciseId: string; startedAt: number; frames: number; events: number }[];
+  files: { path: string; description: string }[];
+};
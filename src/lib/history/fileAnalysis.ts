@@ -0,0 +1,176 @@
+import { activationFor } from "../activation";
+import type { ExerciseDefinition } from "../exercises";
+import type { FeedbackConfig } from "../feedbackConfig";
+import { initialPolicyState, stepPolicy } from "../feedbackPolicy";
+import { buildHoldRule } from "../holdTracker";
+import {
+  createCameraPipeline,
+  idleCameraPipeline,
+  poseStartProblem,
+  type CameraId,
+  type CameraPipeline,
+} from "../pose/cameraPipeline";
+import { createSessionTracker } from "../pose/sessionTracker";
+import type { PoseWorkerOptions } from "../pose/workerProtocol";
+import { createSessionRecorder, type FinishedSession, type SessionMeta } from "./sessionRecord";
+import { perfEpoch, type RecordedClip } from "./videoRecorder";
+
+export type VideoFileSource = { camera: CameraId; file: File };
+
+export type FileAnalysisOptions = {
+  exercise: ExerciseDefinition | undefined;
+  config: FeedbackConfig;
+  meta: Omit<SessionMeta, "activationPct">;
+  pose?: PoseWorkerOptions;
+  /** Frames analysed per second of video. */
+  fps?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+};
+
+export type FileAnalysisResult = FinishedSession & { clips: RecordedClip[] };
+
+export const ANALYSIS_FPS = 30;
+
+/** A frame whose seek and inference take longer than this fails the analysis rather than hang it. */
+export const FRAME_TIMEOUT_MS = 15000;
+
+const withTimeout = <T>(work: Promise<T>, ms: number, message: string) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+};
+
+const once = (video: HTMLVideoElement, type: string) =>
+  new Promise<void>((resolve, reject) => {
+    const ok = () => {
+      video.removeEventListener("error", fail);
+      resolve();
+    };
+    const fail = () => {
+      video.removeEventListener(type, ok);
+      reject(new Error(`Could not read the video (${video.error?.message ?? type})`));
+    };
+    video.addEventListener(type, ok, { once: true });
+    video.addEventListener("error", fail, { once: true });
+  });
+
+const seekTo = (video: HTMLVideoElement, t: number) => {
+  if (video.currentTime === t && video.readyState >= 2) return Promise.resolve();
+  const seeked = once(video, "seeked");
+  video.currentTime = t;
+  return seeked;
+};
+
+/** `urls` collects the object URL as soon as it exists, so it is revoked even if loading fails. */
+const loadVideo = async (file: File, urls: string[]) => {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = URL.createObjectURL(file);
+  urls.push(video.src);
+  await once(video, "loadeddata");
+  // WebM from MediaRecorder has no duration until the browser has scanned to its end.
+  if (!Number.isFinite(video.duration)) {
+    await seekTo(video, Number.MAX_SAFE_INTEGER);
+    await seekTo(video, 0);
+  }
+  return video;
+};
+
+/**
+ * Runs video files through the same pose, angle, phase, rep and feedback-policy pipeline as a live
+ * session, stepping frame by frame as fast as inference allows. Time is the video's own: frames
+ * are stamped from the moment analysis began plus their media time, so holds, dwell times and cue
+ * spacing come out as they would have live. Cues are logged but not sent to the wearable. Rejects,
+ * with nothing to save, when the pose model does not start or no frame shows a person.
+ */
+export async function analyzeVideoFiles(
+  sources: VideoFileSource[],
+  options: FileAnalysisOptions
+): Promise<FileAnalysisResult> {
+  const urls: string[] = [];
+  try {
+    const videos = await Promise.all(sources.map(async (s) => ({ ...s, video: await loadVideo(s.file, urls) })));
+    return await analyze(videos, options);
+  } finally {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+async function analyze(
+  videos: (VideoFileSource & { video: HTMLVideoElement })[],
+  { exercise, config, meta, pose, fps = ANALYSIS_FPS, onProgress, signal }: FileAnalysisOptions
+): Promise<FileAnalysisResult> {
+  const pipelines: Record<CameraId, CameraPipeline> = { front: idleCameraPipeline("front"), side: idleCameraPipeline("side") };
+  // Mirrored like the live cameras even for footage someone else filmed: the model names sides by
+  // the person's own body either way, and mirroring keeps the one key convention that labels,
+  // replay and export expect (`left*` keys are the user's right arm).
+  for (const { camera } of videos) pipelines[camera] = createCameraPipeline({ camera, video: () => null, pose });
+  const tracker = createSessionTracker(pipelines, exercise);
+
+  const base = performance.now();
+  let now = base;
+  const recorder = createSessionRecorder(exercise, () => perfEpoch(now));
+  const thresholds = exercise?.thresholds ?? {};
+  let policy = initialPolicyState();
+  const unsubscribe = tracker.subscribe((analysis) => {
+    recorder.add(analysis);
+    const step = stepPolicy(config, thresholds, policy, {
+      phase: analysis.phase,
+      form: analysis.form,
+      asymmetry: analysis.asymmetry,
+      now,
+    });
+    policy = step.state;
+    step.events.forEach(recorder.cue);
+  });
+
+  try {
+    const problem = await poseStartProblem(videos.map(({ camera }) => pipelines[camera]));
+    if (problem) throw new Error(problem);
+
+    let posed = 0;
+    const duration = Math.max(...videos.map(({ video }) => video.duration));
+    const frames = Math.floor(duration * fps);
+    for (let i = 0; i <= frames; i++) {
+      if (signal?.aborted) throw new DOMException("Video analysis was cancelled", "AbortError");
+      const t = i / fps;
+      now = base + t * 1000;
+      await withTimeout(
+        Promise.all(
+          videos
+            .filter(({ video }) => t <= video.duration)
+            .map(async ({ camera, video }) => {
+              await seekTo(video, t);
+              if (await pipelines[camera].process(video, now)) posed += 1;
+            })
+        ),
+        FRAME_TIMEOUT_MS,
+        `Analysis stopped responding at ${t.toFixed(1)} s`
+      );
+      onProgress?.(frames ? i / frames : 1);
+    }
+
+    // Nothing to keep: a session without a single pose would only look like a very bad workout.
+    if (posed === 0) throw new Error("No person was found in the video.");
+
+    const { reps, hold } = tracker.latest();
+    const finished = recorder.finish({ ...meta, activationPct: activationFor(buildHoldRule(exercise), reps, hold) });
+    const clips = videos.map(({ camera, file, video }) => ({
+      camera,
+      startedAt: perfEpoch(base),
+      endedAt: perfEpoch(base + video.duration * 1000),
+      mimeType: file.type,
+      blob: file,
+    }));
+    return { ...finished, clips };
+  } finally {
+    unsubscribe();
+    tracker.close();
+    Object.values(pipelines).forEach((p) => p.close());
+  }
+}
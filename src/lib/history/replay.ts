@@ -0,0 +1,107 @@
+import { INTENT_COLOR } from "../feedbackConfig";
+import type { Landmark } from "../signals";
+import type { CameraId } from "../pose/cameraPipeline";
+import { JOINT_ARCS, type JointKey } from "../pose/jointReadout";
+import { unpackLandmarks } from "../pose/workerProtocol";
+import type { SessionLabels } from "./annotations";
+import type { AngleSample, LandmarkFrame, SessionRecord } from "./sessionRecord";
+import type { VideoClip } from "./videoRecorder";
+
+/** One camera's stored landmarks and the fused angles that went with them, ordered by capture time. */
+export type LandmarkTrack = { at: number[]; landmarks: Float32Array[]; angles: Partial<Record<JointKey, number>>[] };
+
+export type ReplayFrame = { landmarks: Landmark[]; angles: Partial<Record<JointKey, number>> };
+
+/** `label` marks hand-annotated ground truth. */
+export type ReplayMarker = { at: number; kind: "rep" | "cue" | "label"; color: string; label: string };
+
+const REP_MARKER_COLOR = "#52525B";
+
+export const landmarkTrack = (samples: AngleSample[], frames: LandmarkFrame[], camera: CameraId): LandmarkTrack => {
+  const anglesAt = new Map(samples.map((s) => [s.t, s.angles]));
+  const track: LandmarkTrack = { at: [], landmarks: [], angles: [] };
+  for (const f of frames) {
+    const at = f.capturedAt[camera];
+    const packed = f.landmarks[camera];
+    // Consecutive frames repeat a camera's image until it delivers a new one.
+    if (at === undefined || !packed || at === track.at[track.at.length - 1]) continue;
+    track.at.push(at);
+    track.landmarks.push(packed);
+    track.angles.push(anglesAt.get(f.t) ?? {});
+  }
+  return track;
+};
+
+/** Number of entries of the ascending `times` at or before `t`. */
+const countUpTo = (times: number[], t: number) => {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/** The last frame captured at or before `t`, if it is recent enough to still be on screen. */
+export const frameAt = (track: LandmarkTrack, t: number, maxAgeMs = 250): ReplayFrame | null => {
+  const i = countUpTo(track.at, t) - 1;
+  return i >= 0 && t - track.at[i] <= maxAgeMs
+    ? { landmarks: unpackLandmarks(track.landmarks[i]), angles: track.angles[i] }
+    : null;
+};
+
+/** Capture times of every analysed frame across the tracks, for stepping frame by frame. */
+export const frameTimes = (tracks: LandmarkTrack[]) => [...new Set(tracks.flatMap((t) => t.at))].sort((a, b) => a - b);
+
+/** The analysed frame just after (`dir` 1) or before (-1) `t`. */
+export const stepFrame = (times: number[], t: number, dir: 1 | -1): number | undefined => {
+  const i = countUpTo(times, t);
+  return dir > 0 ? times[i] : times[times[i - 1] === t ? i - 2 : i - 1];
+};
+
+/** Rep boundaries and delivered cues, for the scrubber. */
+export const replayMarkers = (record: SessionRecord): ReplayMarker[] =>
+  [
+    ...record.reps.flatMap((r): ReplayMarker[] => [
+      { at: r.startedAt, kind: "rep", color: REP_MARKER_COLOR, label: `Rep ${r.index} start` },
+      { at: r.endedAt, kind: "rep", color: REP_MARKER_COLOR, label: `Rep ${r.index} counted` },
+    ]),
+    ...record.cues.map((c): ReplayMarker => ({
+      at: c.at,
+      kind: "cue",
+      color: INTENT_COLOR[c.intent],
+      label: `${c.intent}: ${JOINT_ARCS.find((j) => j.key === c.joint)?.label} ${Math.round(c.error)}°`,
+    })),
+  ].sort((a, b) => a.at - b.at);
+
+export const clipAt = (clips: VideoClip[], camera: CameraId, t: number) =>
+  clips.find((c) => c.camera === camera && t >= c.startedAt && t <= c.endedAt) ?? null;
+
+/** Time span covered by the clips. */
+export const clipsSpan = (clips: VideoClip[]) => ({
+  from: Math.min(...clips.map((c) => c.startedAt)),
+  to: Math.max(...clips.map((c) => c.endedAt)),
+});
+
+const LABEL_COLOR = { rep: "#0EA5E9", phase: "#A855F7", violation: "#DC2626" };
+
+/** Hand-marked ground truth, drawn next to the automatic markers so the two can be compared. */
+export const labelMarkers = (labels: SessionLabels): ReplayMarker[] =>
+  [
+    ...labels.reps.flatMap((r, i): ReplayMarker[] => [
+      { at: r.startedAt, kind: "label", color: LABEL_COLOR.rep, label: `Labelled rep ${i + 1} start` },
+      { at: r.endedAt, kind: "label", color: LABEL_COLOR.rep, label: `Labelled rep ${i + 1} end` },
+    ]),
+    ...(labels.openRepAt !== null
+      ? [{ at: labels.openRepAt, kind: "label" as const, color: LABEL_COLOR.rep, label: "Labelled rep start (open)" }]
+      : []),
+    ...labels.phases.map((p): ReplayMarker => ({ at: p.at, kind: "label", color: LABEL_COLOR.phase, label: `Labelled ${p.phase}` })),
+    ...labels.violations.map((v): ReplayMarker => ({
+      at: v.at,
+      kind: "label",
+      color: LABEL_COLOR.violation,
+      label: `Labelled violation: ${JOINT_ARCS.find((j) => j.key === v.joint)?.label}`,
+    })),
+  ].sort((a, b) => a.at - b.at);
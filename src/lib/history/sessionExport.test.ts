@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PHASE_FEEDBACK } from "../feedbackConfig";
+import { packLandmarks } from "../pose/workerProtocol";
+import { EXPORT_SCHEMA_VERSION, POSE_LANDMARK_COUNT } from "./exportSchema";
+import { EVENT_COLUMNS, FRAME_COLUMNS, framesCsv, sessionEvents, sessionJson } from "./sessionExport";
+import type { SessionLandmarks, SessionRecord } from "./sessionRecord";
+
+const START = 1_700_000_000_000;
+
+const RECORD: SessionRecord = {
+  id: "s1",
+  exerciseId: "lat-raise",
+  exerciseTitle: "Lateral Raise",
+  muscles: ["Shoulders"],
+  phases: ["Raise"],
+  feedback: { Raise: DEFAULT_PHASE_FEEDBACK },
+  calibrated: false,
+  activationPct: 40,
+  thresholds: { shoulder: { min: 10, max: 90 } },
+  startedAt: START,
+  endedAt: START + 2000,
+  durationMs: 2000,
+  phaseMs: { Raise: 1000 },
+  inBand: {},
+  reps: [{ index: 1, startedAt: START + 100, endedAt: START + 900, min: {}, max: {}, phaseMs: {} }],
+  violations: [{ at: START + 500, phase: "Raise", joint: "leftShoulder", angle: 95 }],
+  cues: [{ at: START + 600, phase: "Raise", joint: "rightElbow", intent: "Warning", error: 4 }],
+  samples: [
+    { t: START + 100, phase: "Raise", angles: { leftShoulder: 30, rightShoulder: 32 } },
+    { t: START + 150, phase: "Lower", angles: {} },
+  ],
+};
+
+/** Every point at x 0.1 except the left shoulder (11) at 0.25, as stored: mirrored for the preview. */
+const mirrored = () =>
+  packLandmarks(Array.from({ length: POSE_LANDMARK_COUNT }, (_, i) => ({ x: i === 11 ? 0.25 : 0.1, y: 0.5, z: 0, visibility: 1 })));
+
+const LANDMARKS: SessionLandmarks = {
+  sessionId: "s1",
+  frames: [{ t: START + 100, landmarks: { front: mirrored() }, capturedAt: { front: START + 90 } }],
+};
+
+const parse = (csv: string) => {
+  const [header, ...rows] = csv.trim().split("\n").map((l) => l.split(","));
+  return rows.map((r) => Object.fromEntries(header.map((h, i) => [h, r[i]])));
+};
+
+describe("session export", () => {
+  it("lays out frame columns as the schema names them", () => {
+    expect(FRAME_COLUMNS.slice(0, 8)).toEqual([
+      "session_id",
+      "timestamp",
+      "t_ms",
+      "phase",
+      "left_shoulder",
+      "right_shoulder",
+      "left_elbow",
+      "right_elbow",
+    ]);
+    expect(FRAME_COLUMNS).toHaveLength(8 + 2 * POSE_LANDMARK_COUNT * 4 + 2);
+    expect(FRAME_COLUMNS.slice(-2)).toEqual(["front_captured_at", "side_captured_at"]);
+  });
+
+  it("writes one frame row per sample with joints and landmarks on the user's own sides", () => {
+    const [row, empty] = parse(framesCsv([RECORD], [LANDMARKS]));
+    expect(row).toMatchObject({ session_id: "s1", t_ms: "100", phase: "Raise", right_shoulder: "30", left_shoulder: "32", left_elbow: "" });
+    // The mirrored left shoulder is the user's right; un-mirrored it is landmark 12 at 1 - 0.25.
+    expect(row.front_12_x).toBe("0.75");
+    expect(row.front_11_x).toBe("0.9");
+    expect(row.front_captured_at).toBe(String(START + 90));
+    expect(row.side_0_x).toBe("");
+    expect(empty.front_0_x).toBe("");
+  });
+
+  it("leaves landmark columns empty for a session exported without them", () => {
+    const [row] = parse(framesCsv([RECORD], []));
+    expect(row.right_shoulder).toBe("30");
+    expect(row.front_0_x).toBe("");
+  });
+
+  it("lists phase, rep, violation and cue events in time order", () => {
+    const events = sessionEvents(RECORD);
+    expect(events.map((e) => e.event)).toEqual(["phase", "rep_start", "phase", "violation", "cue", "rep_end"]);
+    expect(events.find((e) => e.event === "violation")).toMatchObject({ joint: "right_shoulder", value: 95 });
+    expect(events.find((e) => e.event === "cue")).toMatchObject({ joint: "left_elbow", value: 4, intent: "Warning" });
+    for (const e of events) expect(Object.keys(e).sort()).toEqual([...EVENT_COLUMNS].sort());
+  });
+
+  it("stamps the session JSON with the schema version and rep count", () => {
+    const json = sessionJson(RECORD);
+    expect(json.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(json.session).toMatchObject({ id: "s1", exerciseId: "lat-raise", repCount: 1 });
+    expect(json.events).toEqual(sessionEvents(RECORD));
+  });
+});
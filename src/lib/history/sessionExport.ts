@@ -0,0 +1,196 @@
+import { mirrorLandmarks } from "../pose/poseService";
+import { NO_PHASE } from "../pose/sessionTracker";
+import { unpackLandmarks } from "../pose/workerProtocol";
+import { createZip } from "../zip";
+import {
+  EXPORT_CAMERAS,
+  EXPORT_JOINT_NAME,
+  EXPORT_JOINTS,
+  EXPORT_SCHEMA_VERSION,
+  LANDMARK_FIELDS,
+  POSE_LANDMARK_COUNT,
+  type BundleManifest,
+  type EventRow,
+  type FrameRow,
+  type SessionExport,
+} from "./exportSchema";
+import type { AngleSample, LandmarkFrame, SessionLandmarks, SessionRecord } from "./sessionRecord";
+
+type Cell = string | number | null;
+
+const LANDMARK_COLUMNS = EXPORT_CAMERAS.flatMap((camera) =>
+  Array.from({ length: POSE_LANDMARK_COUNT }, (_, i) => LANDMARK_FIELDS.map((f) => `${camera}_${i}_${f}` as const)).flat()
+);
+
+export const FRAME_COLUMNS: (keyof FrameRow)[] = [
+  "session_id",
+  "timestamp",
+  "t_ms",
+  "phase",
+  ...EXPORT_JOINTS.map((key) => EXPORT_JOINT_NAME[key]),
+  ...LANDMARK_COLUMNS,
+  ...EXPORT_CAMERAS.map((c) => `${c}_captured_at` as const),
+];
+
+export const EVENT_COLUMNS: (keyof EventRow)[] = ["session_id", "timestamp", "t_ms", "event", "phase", "rep", "joint", "value", "intent"];
+
+const cell = (v: Cell) => {
+  if (v === null) return "";
+  if (typeof v === "number") return String(Number(v.toFixed(4)));
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+};
+
+const csvLine = (cells: Cell[]) => cells.map(cell).join(",");
+
+const frameCells = (record: SessionRecord, sample: AngleSample, frame: LandmarkFrame | undefined): Cell[] => [
+  record.id,
+  sample.t,
+  sample.t - record.startedAt,
+  sample.phase,
+  ...EXPORT_JOINTS.map((key) => sample.angles[key] ?? null),
+  ...EXPORT_CAMERAS.flatMap((camera) => {
+    const packed = frame?.landmarks[camera];
+    // Stored landmarks match the mirrored preview; flipping back restores the image and the user's sides.
+    const points = packed ? mirrorLandmarks(unpackLandmarks(packed), (x) => 1 - x) : [];
+    return Array.from({ length: POSE_LANDMARK_COUNT }, (_, i) => LANDMARK_FIELDS.map((f) => points[i]?.[f] ?? null)).flat();
+  }),
+  ...EXPORT_CAMERAS.map((camera) => frame?.capturedAt[camera] ?? null),
+];
+
+/**
+ * Frame-level angles and landmarks of every session in one tidy table, keyed by `session_id`.
+ * Landmark columns stay empty for a session missing from `landmarks`.
+ */
+export const framesCsv = (records: SessionRecord[], landmarks: SessionLandmarks[]) => {
+  const bySession = new Map(landmarks.map((l) => [l.sessionId, new Map(l.frames.map((f) => [f.t, f]))]));
+  const lines = [FRAME_COLUMNS.join(",")];
+  for (const record of records) {
+    const frames = bySession.get(record.id);
+    for (const sample of record.samples) lines.push(csvLine(frameCells(record, sample, frames?.get(sample.t))));
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+/** Phase at `t`, from the last sample taken at or before it. */
+const phaseAt = (samples: AngleSample[], t: number) => {
+  let phase = NO_PHASE;
+  for (const s of samples) {
+    if (s.t > t) break;
+    phase = s.phase;
+  }
+  return phase;
+};
+
+/** Phase changes, reps, form violations and delivered cues, in time order. */
+export const sessionEvents = (record: SessionRecord): EventRow[] => {
+  const base = (timestamp: number) => ({
+    session_id: record.id,
+    timestamp,
+    t_ms: timestamp - record.startedAt,
+    rep: null,
+    joint: null,
+    value: null,
+    intent: null,
+  });
+  const events: EventRow[] = [];
+
+  let phase = NO_PHASE;
+  for (const s of record.samples) {
+    if (s.phase === phase) continue;
+    phase = s.phase;
+    if (phase !== NO_PHASE) events.push({ ...base(s.t), event: "phase", phase });
+  }
+  for (const rep of record.reps) {
+    events.push({ ...base(rep.startedAt), event: "rep_start", phase: phaseAt(record.samples, rep.startedAt), rep: rep.index });
+    events.push({ ...base(rep.endedAt), event: "rep_end", phase: phaseAt(record.samples, rep.endedAt), rep: rep.index });
+  }
+  for (const v of record.violations) {
+    events.push({ ...base(v.at), event: "violation", phase: v.phase, joint: EXPORT_JOINT_NAME[v.joint], value: v.angle });
+  }
+  for (const c of record.cues) {
+    events.push({
+      ...base(c.at),
+      event: "cue",
+      phase: c.phase,
+      joint: EXPORT_JOINT_NAME[c.joint],
+      value: c.error,
+      intent: c.intent,
+    });
+  }
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const eventsCsv = (records: SessionRecord[]) => {
+  const lines = [EVENT_COLUMNS.join(",")];
+  for (const record of records) {
+    for (const e of sessionEvents(record)) lines.push(csvLine(EVENT_COLUMNS.map((c) => e[c])));
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+export const sessionJson = (record: SessionRecord): SessionExport => ({
+  schemaVersion: EXPORT_SCHEMA_VERSION,
+  session: {
+    id: record.id,
+    exerciseId: record.exerciseId,
+    exerciseTitle: record.exerciseTitle,
+    startedAt: record.startedAt,
+    endedAt: record.endedAt,
+    durationMs: record.durationMs,
+    muscles: record.muscles,
+    phases: record.phases,
+    calibrated: record.calibrated,
+    thresholds: record.thresholds,
+    activationPct: record.activationPct,
+    repCount: record.reps.length,
+  },
+  feedback: record.feedback,
+  events: sessionEvents(record),
+});
+
+/** `frames.csv`, `events.csv` and one JSON per session, with a manifest naming the schema version. */
+export const sessionBundle = (records: SessionRecord[], landmarks: SessionLandmarks[]) => {
+  const manifest: BundleManifest = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    app: "wearable-app",
+    createdAt: new Date().toISOString(),
+    sessions: records.map((r) => ({
+      id: r.id,
+      exerciseId: r.exerciseId,
+      startedAt: r.startedAt,
+      frames: r.samples.length,
+      events: sessionEvents(r).length,
+    })),
+    files: [
+      { path: "frames.csv", description: "Frame-level joint angles and pose landmarks; see FrameRow." },
+      { path: "events.csv", description: "Phase, rep, violation and cue events; see EventRow." },
+      ...records.map((r) => ({ path: `sessions/${r.id}.json`, description: "Session settings and event log; see SessionExport." })),
+    ],
+  };
+  return createZip([
+    { path: "manifest.json", data: JSON.stringify(manifest, null, 2) },
+    { path: "frames.csv", data: framesCsv(records, landmarks) },
+    { path: "events.csv", data: eventsCsv(records) },
+    ...records.map((r) => ({ path: `sessions/${r.id}.json`, data: JSON.stringify(sessionJson(r), null, 2) })),
+  ]);
+};
+
+/** File name stem for a session, e.g. `db-front-hold_2025-01-31_14-05`. */
+export const exportName = (record: SessionRecord) => {
+  const d = new Date(record.startedAt);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${record.exerciseId || "session"}_${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}-${pad(d.getMinutes())}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, filename: string, type: string) =>
+  downloadBlob(new Blob([text], { type }), filename);
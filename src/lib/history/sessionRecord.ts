@@ -0,0 +1,215 @@
+import type { ExerciseDefinition } from "../exercises";
+import type { FeedbackConfig, Intent } from "../feedbackConfig";
+import type { PolicyEvent } from "../feedbackPolicy";
+import type { CameraId } from "../pose/cameraPipeline";
+import { JOINT_ARCS, type JointKey, type JointReadout } from "../pose/jointReadout";
+import { NO_PHASE, type SessionAnalysis } from "../pose/sessionTracker";
+import { packLandmarks } from "../pose/workerProtocol";
+import { perfEpoch, sessionClock } from "./videoRecorder";
+
+/** Angles are fused degrees; times are epoch milliseconds from `sessionClock`. */
+export type RepRecord = {
+  index: number;
+  startedAt: number;
+  endedAt: number;
+  min: Partial<Record<JointKey, number>>;
+  max: Partial<Record<JointKey, number>>;
+  /** Time spent in each phase during the rep. */
+  phaseMs: Record<string, number>;
+};
+
+/** Frames in which a joint was visible, and how many of those were inside the exercise thresholds. */
+export type BandCount = { inside: number; total: number };
+
+/** A joint leaving the exercise's form band. */
+export type ViolationRecord = { at: number; phase: string; joint: JointKey; angle: number };
+
+export type CueRecord = { at: number; phase: string; joint: JointKey; intent: Intent; error: number };
+
+/** Fused angles of the visible joints at one moment. */
+export type AngleSample = {
+  t: number;
+  phase: string;
+  angles: Partial<Record<JointKey, number>>;
+};
+
+/**
+ * Each camera's latest image landmarks at the angle sample taken at `t`, packed as x, y, z,
+ * visibility per point. `capturedAt` is when that camera's frame was grabbed, on the clock
+ * recorded video uses.
+ */
+export type LandmarkFrame = {
+  t: number;
+  landmarks: Partial<Record<CameraId, Float32Array>>;
+  capturedAt: Partial<Record<CameraId, number>>;
+};
+
+/** Stored apart from the record: landmarks are most of a session's size and only replay and export read them. */
+export type SessionLandmarks = { sessionId: string; frames: LandmarkFrame[] };
+
+/** Angle samples are kept at most this often, which bounds a long session's record. */
+export const SAMPLE_INTERVAL_MS = 50;
+
+export type SessionRecord = {
+  id: string;
+  exerciseId: string;
+  exerciseTitle: string;
+  muscles: string[];
+  phases: string[];
+  feedback: FeedbackConfig;
+  /** Whether personal calibrated thresholds were in use. */
+  calibrated: boolean;
+  /** Muscle activation reached, as shown by the heat map. */
+  activationPct: number;
+  /** Form band in use, which calibration may have tuned away from the exercise's. */
+  thresholds: ExerciseDefinition["thresholds"];
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  /** Time spent in each phase over the whole session. */
+  phaseMs: Record<string, number>;
+  inBand: Partial<Record<JointKey, BandCount>>;
+  reps: RepRecord[];
+  violations: ViolationRecord[];
+  cues: CueRecord[];
+  samples: AngleSample[];
+};
+
+/** What the angle chart draws; during a workout the arrays keep growing in place. */
+export type SessionTrace = Pick<SessionRecord, "startedAt" | "thresholds" | "reps" | "cues" | "samples">;
+
+/** Settings the page may still change mid-workout, so they are passed in when it ends. */
+export type SessionMeta = Pick<SessionRecord, "muscles" | "phases" | "feedback" | "calibrated" | "activationPct">;
+
+export type FinishedSession = { record: SessionRecord; landmarks: SessionLandmarks };
+
+export type SessionRecorder = {
+  add: (analysis: SessionAnalysis) => void;
+  cue: (event: PolicyEvent) => void;
+  finish: (meta: SessionMeta) => FinishedSession;
+  trace: () => SessionTrace;
+  /** Calibration can change the form band mid-workout; frames from then on are judged against it. */
+  setThresholds: (thresholds: ExerciseDefinition["thresholds"]) => void;
+};
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const turnedBad = (prev: JointReadout | undefined, next: JointReadout) =>
+  next.visible && !next.correct && (!prev?.visible || prev.correct);
+
+/**
+ * Collects what a workout produced. A rep spans from leaving the rest phase to coming back to it;
+ * for holds it is a completed set, from first reaching the hold to its target time, as the hold
+ * tracker counts them. Angle extremes are taken over that span. `clock` is replaced when a
+ * recorded video is analysed faster than real time.
+ */
+export function createSessionRecorder(
+  exercise: ExerciseDefinition | undefined,
+  clock: () => number = sessionClock
+): SessionRecorder {
+  const restPhase = exercise?.phases.find((p) => p.motion === "rest")?.name;
+  const holds = !!exercise?.hold;
+  const startedAt = clock();
+  let thresholds = exercise?.thresholds ?? {};
+  const reps: RepRecord[] = [];
+  const violations: ViolationRecord[] = [];
+  const cues: CueRecord[] = [];
+  const samples: AngleSample[] = [];
+  const frames: LandmarkFrame[] = [];
+  const phaseMs: Record<string, number> = {};
+  const inBand: Partial<Record<JointKey, BandCount>> = {};
+  let current: RepRecord | null = null;
+  let prev: SessionAnalysis | null = null;
+  let lastAt = startedAt;
+  let lastSampleAt = 0;
+
+  return {
+    add: (analysis) => {
+      const now = clock();
+      const { phase } = analysis;
+      // Time since the last update is credited to the phase that was showing during it.
+      if (prev && prev.phase !== NO_PHASE) {
+        const dt = now - lastAt;
+        phaseMs[prev.phase] = (phaseMs[prev.phase] ?? 0) + dt;
+        if (current) current.phaseMs[prev.phase] = (current.phaseMs[prev.phase] ?? 0) + dt;
+      }
+      lastAt = now;
+
+      const ends = holds
+        ? analysis.hold.setsDone > (prev?.hold.setsDone ?? 0)
+        : phase !== prev?.phase && phase === restPhase;
+      const starts = holds
+        ? analysis.hold.status === "holding"
+        : phase !== prev?.phase && phase !== restPhase && phase !== NO_PHASE;
+      if (ends && current) {
+        current.endedAt = now;
+        reps.push(current);
+        current = null;
+      } else if (starts && !current) {
+        current = { index: reps.length + 1, startedAt: now, endedAt: now, min: {}, max: {}, phaseMs: {} };
+      }
+
+      const sample: AngleSample | null = now - lastSampleAt >= SAMPLE_INTERVAL_MS ? { t: now, phase, angles: {} } : null;
+      if (sample) {
+        const frame: LandmarkFrame = { t: now, landmarks: {}, capturedAt: {} };
+        for (const [camera, view] of Object.entries(analysis.views) as [CameraId, SessionAnalysis["views"][CameraId]][]) {
+          if (!view) continue;
+          frame.landmarks[camera] = packLandmarks(view.landmarks);
+          frame.capturedAt[camera] = perfEpoch(view.timestamp);
+        }
+        samples.push(sample);
+        frames.push(frame);
+        lastSampleAt = now;
+      }
+
+      for (const { key, joint } of JOINT_ARCS) {
+        const r = analysis.form[key];
+        const band = thresholds[joint];
+        if (r.visible && band && phase !== NO_PHASE) {
+          // Against the thresholds themselves; `correct` carries the colour hysteresis.
+          const count = (inBand[key] ??= { inside: 0, total: 0 });
+          count.total += 1;
+          if (r.angle >= band.min && r.angle <= band.max) count.inside += 1;
+        }
+        if (sample && r.visible) sample.angles[key] = r.angle;
+        if (current && r.visible) {
+          current.min[key] = Math.min(current.min[key] ?? r.angle, r.angle);
+          current.max[key] = Math.max(current.max[key] ?? r.angle, r.angle);
+        }
+        if (turnedBad(prev?.form[key], r)) violations.push({ at: now, phase, joint: key, angle: r.angle });
+      }
+      prev = analysis;
+    },
+    cue: (event) => {
+      cues.push({ at: clock(), phase: event.phase, joint: event.joint, intent: event.intent, error: event.error });
+    },
+    finish: (meta) => {
+      const endedAt = clock();
+      const id = newId();
+      const record: SessionRecord = {
+        id,
+        exerciseId: exercise?.id ?? "",
+        exerciseTitle: exercise?.title ?? "—",
+        ...meta,
+        thresholds,
+        startedAt,
+        endedAt,
+        durationMs: endedAt - startedAt,
+        phaseMs: { ...phaseMs },
+        inBand: structuredClone(inBand),
+        reps: [...reps],
+        violations: [...violations],
+        cues: [...cues],
+        samples: [...samples],
+      };
+      return { record, landmarks: { sessionId: id, frames: [...frames] } };
+    },
+    trace: () => ({ startedAt, thresholds, reps, cues, samples }),
+    setThresholds: (next) => {
+      thresholds = next;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import type { SessionLabels } from "./annotations";
+import type { SessionLandmarks, SessionRecord } from "./sessionRecord";
+import type { RecordedClip, VideoClip } from "./videoRecorder";
+
+const DB_NAME = "wearable-app";
+const DB_VERSION = 1;
+const STORE = "sessions";
+/** Kept apart from the records so listing sessions does not load their video. */
+const VIDEOS = "videos";
+/** Hand-marked ground truth, keyed by session id. */
+const LABELS = "labels";
+/** Per-session landmark frames, read only by replay and export. */
+const LANDMARKS = "landmarks";
+/** A few numbers per session, so the history list never reads the full records. */
+const LISTINGS = "listings";
+
+/** What the history list shows of a session. */
+export type SessionListing = Pick<SessionRecord, "id" | "exerciseId" | "exerciseTitle" | "startedAt" | "durationMs"> & {
+  reps: number;
+  violations: number;
+  cues: number;
+};
+
+const listingOf = (r: SessionRecord): SessionListing => ({
+  id: r.id,
+  exerciseId: r.exerciseId,
+  exerciseTitle: r.exerciseTitle,
+  startedAt: r.startedAt,
+  durationMs: r.durationMs,
+  reps: r.reps.length,
+  violations: r.violations.length,
+  cues: r.cues.length,
+});
+
+export type SessionFilter = {
+  exerciseId?: string;
+  /** Epoch milliseconds, inclusive. */
+  from?: number;
+  to?: number;
+};
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore(STORE, { keyPath: "id" });
+        db.createObjectStore(LISTINGS, { keyPath: "id" }).createIndex("startedAt", "startedAt");
+        db.createObjectStore(LANDMARKS, { keyPath: "sessionId" });
+        db.createObjectStore(VIDEOS, { keyPath: "id" }).createIndex("sessionId", "sessionId");
+        db.createObjectStore(LABELS, { keyPath: "sessionId" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((e) => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+const tx = async (mode: IDBTransactionMode, store = STORE) => (await openDb()).transaction(store, mode).objectStore(store);
+
+const done = (t: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    t.oncomplete = () => resolve();
+    t.onerror = () => reject(t.error);
+    t.onabort = () => reject(t.error);
+  });
+
+export const historySupported = () => typeof indexedDB !== "undefined";
+
+export const saveSession = async (record: SessionRecord, landmarks?: SessionLandmarks) => {
+  const t = (await openDb()).transaction([STORE, LISTINGS, LANDMARKS], "readwrite");
+  t.objectStore(STORE).put(record);
+  t.objectStore(LISTINGS).put(listingOf(record));
+  if (landmarks) t.objectStore(LANDMARKS).put(landmarks);
+  await done(t);
+};
+
+/** Oldest first; empty for a session stored without landmarks. */
+export const getLandmarks = async (sessionId: string) =>
+  ((await request((await tx("readonly", LANDMARKS)).get(sessionId))) as SessionLandmarks | undefined)?.frames ?? [];
+
+export const getSession = async (id: string) =>
+  (await request((await tx("readonly")).get(id))) as SessionRecord | undefined;
+
+export const deleteSession = async (id: string) => {
+  const t = (await openDb()).transaction([STORE, LISTINGS, VIDEOS, LABELS, LANDMARKS], "readwrite");
+  t.objectStore(STORE).delete(id);
+  t.objectStore(LISTINGS).delete(id);
+  t.objectStore(LABELS).delete(id);
+  t.objectStore(LANDMARKS).delete(id);
+  const videos = t.objectStore(VIDEOS);
+  for (const key of await request(videos.index("sessionId").getAllKeys(id))) videos.delete(key);
+  await done(t);
+};
+
+/** Every session's listing, newest first; the full records are read with `getSession(s)`. */
+export const listSessions = async () =>
+  ((await request((await tx("readonly", LISTINGS)).index("startedAt").getAll())) as SessionListing[]).reverse();
+
+export const filterSessions = (list: SessionListing[], { exerciseId, from, to }: SessionFilter) =>
+  list.filter(
+    (s) =>
+      (!exerciseId || s.exerciseId === exerciseId) &&
+      (from === undefined || s.startedAt >= from) &&
+      (to === undefined || s.startedAt <= to)
+  );
+
+/** Full records in the order of `ids`, skipping any that no longer exist. */
+export const getSessions = async (ids: string[]) => {
+  const store = await tx("readonly");
+  const records = await Promise.all(ids.map((id) => request(store.get(id)) as Promise<SessionRecord | undefined>));
+  return records.filter((r): r is SessionRecord => !!r);
+};
+
+export const saveVideos = async (sessionId: string, clips: RecordedClip[]) => {
+  if (clips.length === 0) return;
+  const t = (await openDb()).transaction(VIDEOS, "readwrite");
+  clips.forEach((clip, i) => t.objectStore(VIDEOS).put({ ...clip, id: `${sessionId}:${i}`, sessionId }));
+  await done(t);
+};
+
+/** Oldest first. */
+export const listVideos = async (sessionId: string) => {
+  const clips = (await request((await tx("readonly", VIDEOS)).index("sessionId").getAll(sessionId))) as VideoClip[];
+  return clips.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const saveLabels = async (labels: SessionLabels) => {
+  await request((await tx("readwrite", LABELS)).put(labels));
+};
+
+export const getLabels = async (sessionId: string) =>
+  (await request((await tx("readonly", LABELS)).get(sessionId))) as SessionLabels | undefined;
+
+export const listLabels = async () => (await request((await tx("readonly", LABELS)).getAll())) as SessionLabels[];
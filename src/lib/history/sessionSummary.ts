@@ -0,0 +1,87 @@
+import { colorForActivation } from "../activation";
+import type { ExercisePhase, ExerciseDefinition } from "../exercises";
+import { INTENTS, type Intent } from "../feedbackConfig";
+import { JOINT_ARCS, type JointKey } from "../pose/jointReadout";
+import type { SessionRecord } from "./sessionRecord";
+
+type Contraction = NonNullable<ExercisePhase["contraction"]>;
+
+export type Tempo = Record<Contraction, number>;
+
+export type RepSummary = {
+  index: number;
+  durationMs: number;
+  tempo: Tempo;
+  /** Range of motion per joint over the rep, in degrees. */
+  rom: Partial<Record<JointKey, number>>;
+};
+
+export type PhaseTime = { name: string; ms: number; contraction?: Contraction };
+
+export type SessionSummary = {
+  reps: RepSummary[];
+  totalMs: number;
+  /** In the exercise's phase order, then any phase the exercise no longer defines. */
+  phases: PhaseTime[];
+  /** Mean time per rep spent in each kind of muscle action. */
+  meanTempo: Tempo;
+  /** Percent of frames inside the thresholds, per joint and over all joints. */
+  inBandPct: Partial<Record<JointKey, number>>;
+  overallInBandPct: number | null;
+  cuesByIntent: Record<Intent, number>;
+  heatColor: string;
+};
+
+const emptyTempo = (): Tempo => ({ concentric: 0, eccentric: 0, isometric: 0 });
+
+export const summarizeSession = (record: SessionRecord, exercise: ExerciseDefinition | undefined): SessionSummary => {
+  const contractionOf = (phase: string) => exercise?.phases.find((p) => p.name === phase)?.contraction;
+
+  const reps = record.reps.map((rep): RepSummary => {
+    const tempo = emptyTempo();
+    for (const [phase, ms] of Object.entries(rep.phaseMs)) {
+      const c = contractionOf(phase);
+      if (c) tempo[c] += ms;
+    }
+    const rom: RepSummary["rom"] = {};
+    for (const { key } of JOINT_ARCS) {
+      const min = rep.min[key];
+      const max = rep.max[key];
+      if (min !== undefined && max !== undefined) rom[key] = max - min;
+    }
+    return { index: rep.index, durationMs: rep.endedAt - rep.startedAt, tempo, rom };
+  });
+
+  const meanTempo = emptyTempo();
+  for (const rep of reps) {
+    for (const c of Object.keys(meanTempo) as Contraction[]) meanTempo[c] += rep.tempo[c] / reps.length;
+  }
+
+  const known = exercise?.phases.map((p) => p.name) ?? [];
+  const names = [...known.filter((n) => record.phaseMs[n]), ...Object.keys(record.phaseMs).filter((n) => !known.includes(n))];
+  const phases = names.map((name) => ({ name, ms: record.phaseMs[name], contraction: contractionOf(name) }));
+
+  const inBandPct: SessionSummary["inBandPct"] = {};
+  let inside = 0;
+  let total = 0;
+  for (const [key, count] of Object.entries(record.inBand) as [JointKey, { inside: number; total: number }][]) {
+    if (count.total === 0) continue;
+    inBandPct[key] = (count.inside / count.total) * 100;
+    inside += count.inside;
+    total += count.total;
+  }
+
+  const cuesByIntent = Object.fromEntries(INTENTS.map((i) => [i, 0])) as Record<Intent, number>;
+  for (const cue of record.cues) cuesByIntent[cue.intent] += 1;
+
+  return {
+    reps,
+    totalMs: record.durationMs,
+    phases,
+    meanTempo,
+    inBandPct,
+    overallInBandPct: total > 0 ? (inside / total) * 100 : null,
+    cuesByIntent,
+    heatColor: colorForActivation(record.activationPct),
+  };
+};
@@ -0,0 +1,83 @@
+import type { CameraId } from "../pose/cameraPipeline";
+
+/**
+ * A continuous stretch of one camera's video. Times are epoch milliseconds on the performance
+ * clock (`performance.timeOrigin + performance.now()`), the clock pose results are stamped with,
+ * so `capturedAt` in the angle samples lines up with `startedAt` here.
+ */
+export type RecordedClip = { camera: CameraId; startedAt: number; endedAt: number; mimeType: string; blob: Blob };
+
+export type VideoClip = RecordedClip & { id: string; sessionId: string };
+
+export type VideoRecorder = {
+  /** Starts recording `stream` for `camera`, closing the clip of any stream it replaces. */
+  record: (camera: CameraId, stream: MediaStream) => void;
+  isRecording: (camera: CameraId) => boolean;
+  /** Closes the open clips; what was recorded so far is kept. */
+  end: () => void;
+  /** Closes the open clips and resolves with every clip, oldest first. */
+  finish: () => Promise<RecordedClip[]>;
+};
+
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+/** Chunks are flushed this often so a crashed tab loses little. */
+const TIMESLICE_MS = 1000;
+
+export const recordingSupported = () => typeof MediaRecorder !== "undefined";
+
+export const perfEpoch = (timestamp: number) => performance.timeOrigin + timestamp;
+
+/** Now, on the clock clips and captured frames use; session records keep all their times on it. */
+export const sessionClock = () => perfEpoch(performance.now());
+
+export function createVideoRecorder(): VideoRecorder {
+  const mimeType = MIME_TYPES.find((t) => MediaRecorder.isTypeSupported(t)) ?? "";
+  const active = new Map<CameraId, MediaRecorder>();
+  const clips: Promise<RecordedClip | null>[] = [];
+
+  const close = (camera: CameraId) => {
+    const rec = active.get(camera);
+    active.delete(camera);
+    if (rec && rec.state !== "inactive") rec.stop();
+  };
+
+  return {
+    record: (camera, stream) => {
+      close(camera);
+      const rec = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      let startedAt = 0;
+      rec.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      rec.onstart = (e) => {
+        startedAt = perfEpoch(e.timeStamp);
+      };
+      clips.push(
+        new Promise((resolve) => {
+          // A recorder also stops by itself when the stream's tracks end.
+          rec.onstop = (e) => {
+            if (active.get(camera) === rec) active.delete(camera);
+            resolve(
+              startedAt && chunks.length
+                ? { camera, startedAt, endedAt: perfEpoch(e.timeStamp), mimeType: rec.mimeType, blob: new Blob(chunks, { type: rec.mimeType }) }
+                : null
+            );
+          };
+          rec.onerror = (e) => {
+            console.error(`${camera} recording error:`, e);
+          };
+        })
+      );
+      active.set(camera, rec);
+      rec.start(TIMESLICE_MS);
+    },
+    isRecording: (camera) => active.has(camera),
+    end: () => [...active.keys()].forEach(close),
+    finish: async () => {
+      [...active.keys()].forEach(close);
+      const done = await Promise.all(clips);
+      return done.filter((c): c is RecordedClip => !!c).sort((a, b) => a.startedAt - b.startedAt);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import type { AngleRange, ExerciseDefinition, Joint } from "./exercises";
+import type { PoseSignals } from "./signals";
+
+export type HoldRule = {
+  joint: Joint;
+  window: AngleRange;
+  tolerance: number;
+  targetMs: number;
+  sets: number;
+};
+
+/**
+ * `waiting` until the arm enters the target window, `holding` while it stays within tolerance,
+ * `paused` when it drifts out mid-set, and `done` after a completed set until the arm is lowered.
+ */
+export type HoldStatus = "waiting" | "holding" | "paused" | "done";
+
+export type HoldRuntime = {
+  status: HoldStatus;
+  /** Time held in the current set. */
+  setMs: number;
+  /** Time held across all sets. */
+  totalMs: number;
+  setsDone: number;
+  lastTs: number | null;
+};
+
+export type HoldStep = {
+  runtime: HoldRuntime;
+  setCompleted: boolean;
+};
+
+export const buildHoldRule = (ex: ExerciseDefinition | undefined): HoldRule | null => {
+  const hold = ex?.hold;
+  const phase = ex?.phases.find((p) => p.motion === "hold");
+  if (!hold || !phase?.angle) return null;
+  return {
+    joint: hold.joint,
+    window: phase.angle,
+    tolerance: hold.tolerance,
+    targetMs: hold.seconds * 1000,
+    sets: hold.sets,
+  };
+};
+
+export const initialHoldRuntime = (): HoldRuntime => ({
+  status: "waiting",
+  setMs: 0,
+  totalMs: 0,
+  setsDone: 0,
+  lastTs: null,
+});
+
+const inRange = (v: number, r: AngleRange, slack: number) => v >= r.min - slack && v <= r.max + slack;
+
+export const stepHold = (rule: HoldRule, runtime: HoldRuntime, signals: PoseSignals, now: number): HoldStep => {
+  const angle = signals[rule.joint];
+  const dt = runtime.lastTs === null ? 0 : now - runtime.lastTs;
+  const next: HoldRuntime = { ...runtime, lastTs: now };
+  if (angle === undefined) return { runtime: next, setCompleted: false };
+
+  switch (runtime.status) {
+    case "waiting":
+    case "paused": {
+      // Entering needs the strict window; staying only needs the tolerance band around it.
+      if (inRange(angle, rule.window, 0)) next.status = "holding";
+      return { runtime: next, setCompleted: false };
+    }
+    case "holding": {
+      if (!inRange(angle, rule.window, rule.tolerance)) {
+        next.status = "paused";
+        return { runtime: next, setCompleted: false };
+      }
+      next.setMs = runtime.setMs + dt;
+      next.totalMs = runtime.totalMs + dt;
+      if (next.setMs >= rule.targetMs) {
+        next.status = "done";
+        next.setMs = 0;
+        next.setsDone = runtime.setsDone + 1;
+        return { runtime: next, setCompleted: true };
+      }
+      return { runtime: next, setCompleted: false };
+    }
+    case "done": {
+      if (!inRange(angle, rule.window, rule.tolerance)) next.status = "waiting";
+      return { runtime: next, setCompleted: false };
+    }
+  }
+};
+
+export const remainingMs = (rule: HoldRule, runtime: HoldRuntime) => Math.max(0, rule.targetMs - runtime.setMs);
+
+export const holdProgressPct = (rule: HoldRule, runtime: HoldRuntime) =>
+  (runtime.totalMs / (rule.targetMs * rule.sets)) * 100;
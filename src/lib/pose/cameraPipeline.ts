@@ -0,0 +1,122 @@
+import { createPoseWorkerClient, type PoseWorkerClient, type PoseWorkerResult } from "./poseWorkerClient";
+import type { PoseWorkerOptions } from "./workerProtocol";
+
+export type CameraId = "front" | "side";
+
+export type CameraPipelineOptions = {
+  camera: CameraId;
+  /** Read on every frame, so the element can be swapped or remounted without restarting. */
+  video: () => HTMLVideoElement | null;
+  pose?: PoseWorkerOptions;
+};
+
+export type CameraPipeline = {
+  camera: CameraId;
+  /** Resolves once the pose worker is running, or with the reason it could not start. */
+  started: Promise<Error | null>;
+  latest: () => PoseWorkerResult | null;
+  /** Called after every processed frame, with null when no pose was found. */
+  subscribe: (fn: (result: PoseWorkerResult | null) => void) => () => void;
+  /**
+   * Runs one frame outside the live loop, resolving once subscribers have seen its result. For
+   * pipelines whose `video` returns null, so live frames do not interleave with these.
+   */
+  process: (source: ImageBitmapSource, timestamp: number) => Promise<PoseWorkerResult | null>;
+  close: () => void;
+};
+
+/**
+ * Resolves with a message for the user if any pipeline's worker failed to start. The usual cause
+ * is a model file that was never downloaded into public/models.
+ */
+export const poseStartProblem = async (pipelines: CameraPipeline[]) => {
+  const error = (await Promise.all(pipelines.map((p) => p.started))).find((e) => e !== null);
+  return error ? `Pose model not found in /models or could not be loaded (${error.message}). See the README.` : null;
+};
+
+/** Stands in for a camera that is not in use; it never sees a pose. */
+export const idleCameraPipeline = (camera: CameraId): CameraPipeline => ({
+  camera,
+  started: Promise.resolve(null),
+  latest: () => null,
+  subscribe: () => () => {},
+  process: async () => null,
+  close: () => {},
+});
+
+/**
+ * Runs pose inference on one camera for the whole session. Views and the session tracker
+ * subscribe to it; none of them own it.
+ */
+export function createCameraPipeline({ camera, video, pose }: CameraPipelineOptions): CameraPipeline {
+  const listeners = new Set<(result: PoseWorkerResult | null) => void>();
+  const waiters: ((result: PoseWorkerResult | null) => void)[] = [];
+
+  let latest: PoseWorkerResult | null = null;
+  let client: PoseWorkerClient | null = null;
+  let raf: number | null = null;
+  let closed = false;
+
+  const onResult = (result: PoseWorkerResult | null) => {
+    latest = result;
+    listeners.forEach((fn) => fn(result));
+    waiters.splice(0).forEach((fn) => fn(result));
+  };
+
+  // A frame that never reached the worker has no result to wait for.
+  const onDropped = () => waiters.splice(0).forEach((fn) => fn(null));
+
+  const pump = () => {
+    if (closed) return;
+    const v = video();
+    if (client && v && v.readyState >= 2) client.submit(v, performance.now());
+    raf = requestAnimationFrame(pump);
+  };
+
+  let startError: Error | null = null;
+  const ready = createPoseWorkerClient({ mirror: true, ...pose }, onResult, onDropped)
+    .then((c) => {
+      if (closed) {
+        c.close();
+        return null;
+      }
+      client = c;
+      raf = requestAnimationFrame(pump);
+      return c;
+    })
+    .catch((e) => {
+      console.error(`${camera} camera pose worker error:`, e);
+      startError = e instanceof Error ? e : new Error(String(e));
+      return null;
+    });
+
+  return {
+    camera,
+    started: ready.then(() => startError),
+    latest: () => latest,
+    subscribe: (fn) => {
+      listeners.add(fn);
+      return () => {
+        listeners.delete(fn);
+      };
+    },
+    process: async (source, timestamp) => {
+      const c = await ready;
+      while (c && !closed) {
+        const result = new Promise<PoseWorkerResult | null>((resolve) => waiters.push(resolve));
+        if (c.submit(source, timestamp)) return result;
+        // A live frame is still in flight; go once it is back.
+        await result;
+      }
+      return null;
+    },
+    close: () => {
+      closed = true;
+      waiters.splice(0).forEach((fn) => fn(null));
+      if (raf !== null) cancelAnimationFrame(raf);
+      raf = null;
+      client?.close();
+      client = null;
+    },
+  };
+}
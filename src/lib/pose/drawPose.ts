@@ -0,0 +1,85 @@
+import { PoseLandmarker } from "@mediapipe/tasks-vision";
+import type { Landmark } from "../signals";
+import { JOINT_ARCS, type JointKey, type JointReadout } from "./jointReadout";
+import { SIDE_PAIRS } from "./poseService";
+
+const LEFT_COLOR = "rgb(255,138,0)";
+const RIGHT_COLOR = "rgb(0,217,231)";
+const NEUTRAL_COLOR = "white";
+
+const LEFT = new Set(SIDE_PAIRS.map(([l]) => l));
+const RIGHT = new Set(SIDE_PAIRS.map(([, r]) => r));
+const fillFor = (i: number) => (LEFT.has(i) ? LEFT_COLOR : RIGHT.has(i) ? RIGHT_COLOR : NEUTRAL_COLOR);
+
+export function drawPose(
+  ctx: CanvasRenderingContext2D,
+  landmarks: Landmark[],
+  { visibilityMin = 0.65 }: { visibilityMin?: number } = {}
+) {
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+  const visible = (p: Landmark | undefined): p is Landmark => !!p && p.visibility >= visibilityMin;
+
+  ctx.save();
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = "white";
+  for (const { start, end } of PoseLandmarker.POSE_CONNECTIONS) {
+    const a = landmarks[start];
+    const b = landmarks[end];
+    if (!visible(a) || !visible(b)) continue;
+    ctx.beginPath();
+    ctx.moveTo(a.x * w, a.y * h);
+    ctx.lineTo(b.x * w, b.y * h);
+    ctx.stroke();
+  }
+
+  ctx.lineWidth = 2;
+  landmarks.forEach((p, i) => {
+    if (!visible(p)) return;
+    ctx.beginPath();
+    ctx.arc(p.x * w, p.y * h, 5, 0, 2 * Math.PI);
+    ctx.fillStyle = fillFor(i);
+    ctx.fill();
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+const drawAngleArc = (ctx: CanvasRenderingContext2D, center: Landmark, point1: Landmark, point2: Landmark, color: string) => {
+  const p1x = point1.x * ctx.canvas.width;
+  const p1y = point1.y * ctx.canvas.height;
+  const cx = center.x * ctx.canvas.width;
+  const cy = center.y * ctx.canvas.height;
+  const p2x = point2.x * ctx.canvas.width;
+  const p2y = point2.y * ctx.canvas.height;
+
+  const a1 = Math.atan2(p1y - cy, p1x - cx);
+  const a2 = Math.atan2(p2y - cy, p2x - cx);
+
+  ctx.beginPath();
+  let angleDiff = a2 - a1;
+  if (angleDiff < 0) angleDiff += 2 * Math.PI;
+  ctx.arc(cx, cy, 30, a1, a2, angleDiff > Math.PI);
+
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = color;
+  ctx.stroke();
+};
+
+/** Arcs for every joint the readout marks visible, green inside the exercise thresholds and red outside. */
+export function drawJointArcs(
+  ctx: CanvasRenderingContext2D,
+  landmarks: Landmark[],
+  readout: Record<JointKey, JointReadout>
+) {
+  ctx.save();
+  for (const j of JOINT_ARCS) {
+    const r = readout[j.key];
+    const at = landmarks[j.at];
+    const from = landmarks[j.from];
+    const to = landmarks[j.to];
+    if (!r.visible || !at || !from || !to) continue;
+    drawAngleArc(ctx, at, from, to, r.correct ? "#00FF00" : "#FF0000");
+  }
+  ctx.restore();
+}
@@ -0,0 +1,114 @@
+import { LANDMARK, type Landmark, type PoseSignals, type Side, type Signal } from "../signals";
+import type { CameraId } from "./cameraPipeline";
+import type { PoseWorkerResult } from "./poseWorkerClient";
+
+/** Results further apart than this are not treated as the same moment. */
+export const MAX_SKEW_MS = 150;
+
+const CAMERAS: CameraId[] = ["front", "side"];
+const SIGNALS: Signal[] = ["shoulder", "elbow", "abduction", "flexion", "wristHeight", "forearmRotation"];
+
+export type FusedFrame = {
+  timestamp: number;
+  /**
+   * Display skeleton, in image coordinates of the front view when it has a pose and the side view
+   * otherwise. The cameras are not calibrated against each other, so positions are not blended.
+   */
+  landmarks: Landmark[];
+  signals: Record<Side, PoseSignals>;
+  /** How much each camera contributed to every fused signal, normalised to sum to 1. */
+  weights: Record<Side, Partial<Record<Signal, Partial<Record<CameraId, number>>>>>;
+  /** Side whose arm the cameras see best overall. */
+  dominant: Side;
+  cameras: CameraId[];
+};
+
+const segmentsFor = (signal: Signal, side: Side): [number, number][] => {
+  const l = side === "left";
+  const hip = l ? LANDMARK.LEFT_HIP : LANDMARK.RIGHT_HIP;
+  const shoulder = l ? LANDMARK.LEFT_SHOULDER : LANDMARK.RIGHT_SHOULDER;
+  const elbow = l ? LANDMARK.LEFT_ELBOW : LANDMARK.RIGHT_ELBOW;
+  const wrist = l ? LANDMARK.LEFT_WRIST : LANDMARK.RIGHT_WRIST;
+  switch (signal) {
+    case "shoulder":
+      return [[shoulder, hip], [shoulder, elbow]];
+    case "elbow":
+      return [[elbow, shoulder], [elbow, wrist]];
+    case "abduction":
+    case "flexion":
+    case "wristHeight":
+      return [[shoulder, elbow]];
+    case "forearmRotation":
+      return [[l ? LANDMARK.LEFT_PINKY : LANDMARK.RIGHT_PINKY, l ? LANDMARK.LEFT_INDEX : LANDMARK.RIGHT_INDEX]];
+  }
+};
+
+/**
+ * How far a camera's angle can be trusted: the weakest landmark visibility, scaled down by
+ * foreshortening. A segment pointing along the camera axis projects short in 2D and has to be
+ * recovered from depth in 3D, the model's weakest axis. That is what makes the front view good at
+ * abduction and the side view good at flexion.
+ */
+const reliability = (result: PoseWorkerResult, segments: [number, number][]) => {
+  const { landmarks, worldLandmarks } = result;
+  let w = 1;
+  for (const [a, b] of segments) {
+    const pa = landmarks[a];
+    const pb = landmarks[b];
+    if (!pa || !pb) return 0;
+    w = Math.min(w, pa.visibility, pb.visibility);
+    const wa = worldLandmarks[a];
+    const wb = worldLandmarks[b];
+    if (wa && wb) {
+      const dx = wb.x - wa.x;
+      const dy = wb.y - wa.y;
+      const len = Math.hypot(dx, dy, wb.z - wa.z);
+      if (len > 0) w *= (Math.hypot(dx, dy) / len) ** 2;
+    }
+  }
+  return w;
+};
+
+export const fuseFrames = (views: Record<CameraId, PoseWorkerResult | null>): FusedFrame | null => {
+  const present = CAMERAS.filter((c) => views[c]);
+  if (!present.length) return null;
+  const timestamp = Math.max(...present.map((c) => views[c]!.timestamp));
+  const cameras = present.filter((c) => timestamp - views[c]!.timestamp <= MAX_SKEW_MS);
+
+  const signals: Record<Side, PoseSignals> = { left: {}, right: {} };
+  const weights: FusedFrame["weights"] = { left: {}, right: {} };
+  const seen: Record<Side, number> = { left: 0, right: 0 };
+
+  for (const side of ["left", "right"] as Side[]) {
+    for (const signal of SIGNALS) {
+      const segments = segmentsFor(signal, side);
+      let total = 0;
+      let sum = 0;
+      const share: Partial<Record<CameraId, number>> = {};
+      for (const c of cameras) {
+        const view = views[c]!;
+        const v = view.signals[side][signal];
+        if (v === undefined) continue;
+        const w = reliability(view, segments);
+        share[c] = w;
+        total += w;
+        sum += w * v;
+        if (signal === "shoulder") seen[side] += w;
+      }
+      if (total <= 0) continue;
+      signals[side][signal] = sum / total;
+      for (const c of cameras) if (share[c] !== undefined) share[c] = share[c]! / total;
+      weights[side][signal] = share;
+    }
+  }
+
+  const display = views[cameras.includes("front") ? "front" : cameras[0]]!;
+  return {
+    timestamp,
+    landmarks: display.landmarks,
+    signals,
+    weights,
+    dominant: seen.left > seen.right ? "left" : "right",
+    cameras,
+  };
+};
@@ -0,0 +1,84 @@
+import type { ExerciseDefinition, Joint } from "../exercises";
+import { LANDMARK, type Landmark, type PoseSignals, type Side } from "../signals";
+
+export type JointKey = "leftShoulder" | "rightShoulder" | "leftElbow" | "rightElbow";
+/** `x` and `y` are normalised to the frame, like the landmarks. */
+export type JointReadout = { angle: number; x: number; y: number; visible: boolean; correct: boolean };
+
+export const HIDDEN_JOINT: JointReadout = { angle: 0, x: 0, y: 0, visible: false, correct: true };
+export const emptyReadout = (): Record<JointKey, JointReadout> => ({
+  leftShoulder: HIDDEN_JOINT,
+  rightShoulder: HIDDEN_JOINT,
+  leftElbow: HIDDEN_JOINT,
+  rightElbow: HIDDEN_JOINT,
+});
+
+/**
+ * Landmarks are mirrored for the selfie view, so the user's right arm has the `left*` keys and
+ * landmarks. `side` is the landmark side; `userSide` is the user's own arm, which labels name.
+ */
+export const JOINT_ARCS: { key: JointKey; side: Side; userSide: Side; joint: Joint; at: number; from: number; to: number; label: string }[] = [
+  { key: "leftShoulder", side: "left", userSide: "right", joint: "shoulder", at: LANDMARK.LEFT_SHOULDER, from: LANDMARK.LEFT_HIP, to: LANDMARK.LEFT_ELBOW, label: "R-Shoulder" },
+  { key: "rightShoulder", side: "right", userSide: "left", joint: "shoulder", at: LANDMARK.RIGHT_SHOULDER, from: LANDMARK.RIGHT_HIP, to: LANDMARK.RIGHT_ELBOW, label: "L-Shoulder" },
+  { key: "leftElbow", side: "left", userSide: "right", joint: "elbow", at: LANDMARK.LEFT_ELBOW, from: LANDMARK.LEFT_SHOULDER, to: LANDMARK.LEFT_WRIST, label: "R-Elbow" },
+  { key: "rightElbow", side: "right", userSide: "left", joint: "elbow", at: LANDMARK.RIGHT_ELBOW, from: LANDMARK.RIGHT_SHOULDER, to: LANDMARK.RIGHT_WRIST, label: "L-Elbow" },
+];
+export const SIDE_JOINT_PAIRS: [JointKey, JointKey][] = [["leftShoulder", "rightShoulder"], ["leftElbow", "rightElbow"]];
+
+/** Degrees an angle must move back inside (or outside) a threshold before its colour flips. */
+export const FORM_HYSTERESIS = 3;
+
+const arcFor = (key: JointKey) => JOINT_ARCS.find((j) => j.key === key)!;
+
+/**
+ * Places `signals` on the joints of `landmarks`; positions are normalised to the frame. A side
+ * camera only sees one arm properly, so `oneSided` labels whichever joint of each pair it sees best.
+ * Passing the `previous` readout keeps an angle's colour until it clears the threshold by FORM_HYSTERESIS.
+ */
+export const computeReadout = (
+  landmarks: Landmark[],
+  signals: Record<Side, PoseSignals>,
+  thresholds: ExerciseDefinition["thresholds"],
+  oneSided: boolean,
+  previous?: Record<JointKey, JointReadout>
+) => buildReadout(landmarks, (j) => signals[j.side][j.joint], thresholds, oneSided, previous);
+
+/** Same as computeReadout, from already fused angles such as a stored session's. */
+export const readoutFromAngles = (
+  landmarks: Landmark[],
+  angles: Partial<Record<JointKey, number>>,
+  thresholds: ExerciseDefinition["thresholds"],
+  oneSided: boolean
+) => buildReadout(landmarks, (j) => angles[j.key], thresholds, oneSided);
+
+const buildReadout = (
+  landmarks: Landmark[],
+  angleFor: (arc: (typeof JOINT_ARCS)[number]) => number | undefined,
+  thresholds: ExerciseDefinition["thresholds"],
+  oneSided: boolean,
+  previous?: Record<JointKey, JointReadout>
+): Record<JointKey, JointReadout> => {
+  const next = emptyReadout();
+
+  for (const j of JOINT_ARCS) {
+    const at = landmarks[j.at];
+    const angle = angleFor(j);
+    if (!at || !landmarks[j.from] || !landmarks[j.to] || angle === undefined || at.visibility <= 0.5) continue;
+
+    const threshold = thresholds[j.joint];
+    const was = previous?.[j.key];
+    const slack = was?.visible ? (was.correct ? FORM_HYSTERESIS : -FORM_HYSTERESIS) : 0;
+    const correct = threshold ? angle >= threshold.min - slack && angle <= threshold.max + slack : true;
+    next[j.key] = { angle, x: at.x, y: at.y, visible: true, correct };
+  }
+
+  if (oneSided) {
+    for (const [l, r] of SIDE_JOINT_PAIRS) {
+      if (!next[l].visible || !next[r].visible) continue;
+      if (landmarks[arcFor(l).at].visibility > landmarks[arcFor(r).at].visibility) next[r] = HIDDEN_JOINT;
+      else next[l] = HIDDEN_JOINT;
+    }
+  }
+
+  return next;
+};
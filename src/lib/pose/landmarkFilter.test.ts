@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { createLandmarkFilter, WORLD_LANDMARK_FILTER } from "./landmarkFilter";
+
+const point = (x: number) => [{ x, y: 0, z: 0, visibility: 1 }];
+
+/** No smoothing, so only the outlier rejection shows. */
+const filter = () => createLandmarkFilter({ ...WORLD_LANDMARK_FILTER, minCutoff: 1e6, maxSpeed: 5, maxRejects: 3 });
+
+describe("landmark filter", () => {
+  it("holds a point that jumps faster than the limit", () => {
+    const f = filter();
+    f.filter(point(0), 0);
+    expect(f.filter(point(1), 33)[0].x).toBe(0);
+  });
+
+  it("judges the frame after a held one over the time since the last accepted point", () => {
+    const f = filter();
+    f.filter(point(0), 0);
+    f.filter(point(1), 33);
+    // 0.2 m in 66 ms is 3 m/s; over a single frame it would be 6 m/s.
+    expect(f.filter(point(0.2), 66)[0].x).toBeCloseTo(0.2);
+  });
+
+  it("accepts the new position once it has been held too many frames", () => {
+    const f = filter();
+    f.filter(point(0), 0);
+    for (let i = 1; i <= 3; i++) expect(f.filter(point(1), i * 33)[0].x).toBe(0);
+    expect(f.filter(point(1), 4 * 33)[0].x).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Landmark } from "../signals";
+
+/**
+ * One Euro filter: a low-pass whose cutoff rises with speed, so slow drift is smoothed hard while
+ * fast movement keeps little lag. `minCutoff` is in Hz; `beta` scales the cutoff with speed.
+ */
+export type OneEuroConfig = { minCutoff: number; beta: number; dCutoff: number };
+
+export type LandmarkFilterConfig = OneEuroConfig & {
+  /**
+   * Faster than this a point is treated as a mis-detection and held; in frame widths per second
+   * for image landmarks and metres per second for world landmarks.
+   */
+  maxSpeed: number;
+  /** Consecutive held frames before a point is accepted anyway and the filter re-seeded. */
+  maxRejects: number;
+};
+
+/** Normalised to the frame: a hand crossing a third of it in a tenth of a second is not a rep. */
+export const IMAGE_LANDMARK_FILTER: LandmarkFilterConfig = {
+  minCutoff: 1.5,
+  beta: 10,
+  dCutoff: 1,
+  maxSpeed: 3,
+  maxRejects: 3,
+};
+
+/** In metres around the hips; a dumbbell moved at full effort stays well under 5 m/s. */
+export const WORLD_LANDMARK_FILTER: LandmarkFilterConfig = {
+  minCutoff: 1.5,
+  beta: 10,
+  dCutoff: 1,
+  maxSpeed: 5,
+  maxRejects: 3,
+};
+
+const smoothing = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const createOneEuro = ({ minCutoff, beta, dCutoff }: OneEuroConfig) => {
+  let prev: number | null = null;
+  let dPrev = 0;
+  return (value: number, dt: number) => {
+    if (prev === null || dt <= 0) {
+      prev = value;
+      return value;
+    }
+    const a = smoothing(dCutoff, dt);
+    dPrev = a * ((value - prev) / dt) + (1 - a) * dPrev;
+    const cutoff = minCutoff + beta * Math.abs(dPrev);
+    const b = smoothing(cutoff, dt);
+    prev = b * value + (1 - b) * prev;
+    return prev;
+  };
+};
+
+type PointState = {
+  x: ReturnType<typeof createOneEuro>;
+  y: ReturnType<typeof createOneEuro>;
+  z: ReturnType<typeof createOneEuro>;
+  /** Last accepted point, and when it was seen. */
+  last: Landmark;
+  at: number;
+  rejects: number;
+};
+
+export type LandmarkFilter = {
+  /** `timestamp` in milliseconds. */
+  filter: (points: Landmark[], timestamp: number) => Landmark[];
+  reset: () => void;
+};
+
+/**
+ * Speed is measured from the last accepted point over the time since it, so a held frame does not
+ * make the next genuine one look twice as fast.
+ */
+export function createLandmarkFilter(cfg: LandmarkFilterConfig): LandmarkFilter {
+  let states: PointState[] = [];
+
+  const seed = (p: Landmark, at: number): PointState => {
+    const s = { x: createOneEuro(cfg), y: createOneEuro(cfg), z: createOneEuro(cfg), last: p, at, rejects: 0 };
+    s.x(p.x, 0);
+    s.y(p.y, 0);
+    s.z(p.z, 0);
+    return s;
+  };
+
+  return {
+    filter: (points, timestamp) =>
+      points.map((p, i) => {
+        const s = states[i];
+        const dt = s ? (timestamp - s.at) / 1000 : 0;
+        if (!s || dt <= 0) {
+          states[i] = seed(p, timestamp);
+          return p;
+        }
+
+        const speed = Math.hypot(p.x - s.last.x, p.y - s.last.y, p.z - s.last.z) / dt;
+        if (speed > cfg.maxSpeed) {
+          if (s.rejects < cfg.maxRejects) {
+            s.rejects++;
+            return { ...s.last, visibility: p.visibility };
+          }
+          states[i] = seed(p, timestamp);
+          return p;
+        }
+
+        s.rejects = 0;
+        s.at = timestamp;
+        s.last = { x: s.x(p.x, dt), y: s.y(p.y, dt), z: s.z(p.z, dt), visibility: p.visibility };
+        return s.last;
+      }),
+    reset: () => {
+      states = [];
+    },
+  };
+}
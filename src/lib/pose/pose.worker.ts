@@ -0,0 +1,74 @@
+import { computeSignals } from "../signals";
+import {
+  createLandmarkFilter,
+  IMAGE_LANDMARK_FILTER,
+  WORLD_LANDMARK_FILTER,
+  type LandmarkFilter,
+} from "./landmarkFilter";
+import { createPoseService, type PoseService } from "./poseService";
+import { packLandmarks, type PoseWorkerRequest, type PoseWorkerResponse } from "./workerProtocol";
+
+const scope = self as unknown as Worker;
+
+let service: PoseService | null = null;
+// Image and world landmarks live in different units, so each gets its own filter.
+let filters: { image: LandmarkFilter; world: LandmarkFilter } | null = null;
+
+const post = (msg: PoseWorkerResponse, transfer: Transferable[] = []) => scope.postMessage(msg, transfer);
+
+scope.onmessage = async (ev: MessageEvent<PoseWorkerRequest>) => {
+  const msg = ev.data;
+  switch (msg.type) {
+    case "init": {
+      try {
+        const { filter, ...options } = msg.options;
+        service = await createPoseService({ ...options, canvas: new OffscreenCanvas(1, 1) });
+        filters =
+          filter === false
+            ? null
+            : {
+                image: createLandmarkFilter({ ...IMAGE_LANDMARK_FILTER, ...filter?.image }),
+                world: createLandmarkFilter({ ...WORLD_LANDMARK_FILTER, ...filter?.world }),
+              };
+        post({ type: "ready" });
+      } catch (e) {
+        post({ type: "error", message: e instanceof Error ? e.message : String(e) });
+      }
+      break;
+    }
+    case "frame": {
+      let frame = null;
+      try {
+        frame = service?.detect(msg.bitmap, msg.timestamp) ?? null;
+      } catch (e) {
+        console.error("pose worker detect error:", e);
+      }
+      msg.bitmap.close();
+      if (!frame) {
+        // Re-seed on reacquisition rather than easing in from a stale pose.
+        filters?.image.reset();
+        filters?.world.reset();
+        post({ type: "result", timestamp: msg.timestamp, landmarks: null, worldLandmarks: null, signals: null });
+        break;
+      }
+      const image = filters ? filters.image.filter(frame.landmarks, frame.timestamp) : frame.landmarks;
+      const world = filters ? filters.world.filter(frame.worldLandmarks, frame.timestamp) : frame.worldLandmarks;
+      const landmarks = packLandmarks(image);
+      const worldLandmarks = packLandmarks(world);
+      post(
+        {
+          type: "result",
+          timestamp: frame.timestamp,
+          landmarks,
+          worldLandmarks,
+          signals: {
+            left: computeSignals(image, "left", world),
+            right: computeSignals(image, "right", world),
+          },
+        },
+        [landmarks.buffer, worldLandmarks.buffer]
+      );
+      break;
+    }
+  }
+};
@@ -0,0 +1,110 @@
+import {
+  FilesetResolver,
+  PoseLandmarker,
+  type Landmark as WorldLandmark,
+  type NormalizedLandmark,
+} from "@mediapipe/tasks-vision";
+
+export type { NormalizedLandmark, WorldLandmark };
+
+/** Copied out of node_modules by scripts/copy-mediapipe-assets.mjs on install. */
+export const POSE_WASM_PATH = "/mediapipe/wasm";
+
+export type PoseModel = "lite" | "full" | "heavy";
+
+export const poseModelPath = (model: PoseModel) => `/models/pose_landmarker_${model}.task`;
+
+export type PoseFrame = {
+  landmarks: NormalizedLandmark[];
+  /** Metres, origin between the hips. */
+  worldLandmarks: WorldLandmark[];
+  timestamp: number;
+};
+
+export type PoseServiceOptions = {
+  model?: PoseModel;
+  /** Flip landmarks to match a mirrored (selfie) preview, swapping left and right labels. */
+  mirror?: boolean;
+  minDetectionConfidence?: number;
+  minTrackingConfidence?: number;
+  /** GL surface for the GPU delegate; required when running inside a worker. */
+  canvas?: OffscreenCanvas;
+};
+
+export type PoseService = {
+  detect: (source: TexImageSource, timestamp: number) => PoseFrame | null;
+  close: () => void;
+};
+
+/** Left/right landmark index pairs of the 33-point skeleton. */
+export const SIDE_PAIRS: [number, number][] = [
+  [1, 4], [2, 5], [3, 6], [7, 8], [9, 10], [11, 12], [13, 14], [15, 16], [17, 18],
+  [19, 20], [21, 22], [23, 24], [25, 26], [27, 28], [29, 30], [31, 32],
+];
+
+export const mirrorLandmarks = <T extends { x: number }>(points: T[], flipX: (x: number) => number): T[] => {
+  const out = points.map((p) => ({ ...p, x: flipX(p.x) }));
+  for (const [l, r] of SIDE_PAIRS) {
+    if (out[l] && out[r]) [out[l], out[r]] = [out[r], out[l]];
+  }
+  return out;
+};
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+let filesetPromise: Promise<WasmFileset> | null = null;
+
+const loadFileset = () => {
+  if (!filesetPromise) {
+    filesetPromise = FilesetResolver.forVisionTasks(POSE_WASM_PATH).catch((e) => {
+      filesetPromise = null;
+      throw e;
+    });
+  }
+  return filesetPromise;
+};
+
+export async function createPoseService(options: PoseServiceOptions = {}): Promise<PoseService> {
+  const {
+    model = "full",
+    mirror = false,
+    minDetectionConfidence = 0.5,
+    minTrackingConfidence = 0.5,
+    canvas,
+  } = options;
+
+  const fileset = await loadFileset();
+  const landmarker = await PoseLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: poseModelPath(model), delegate: "GPU" },
+    runningMode: "VIDEO",
+    canvas,
+    numPoses: 1,
+    minPoseDetectionConfidence: minDetectionConfidence,
+    minPosePresenceConfidence: minDetectionConfidence,
+    minTrackingConfidence,
+  });
+
+  // detectForVideo rejects timestamps that do not strictly increase.
+  let lastTs = -1;
+
+  return {
+    detect: (source, timestamp) => {
+      const ts = timestamp > lastTs ? timestamp : lastTs + 1;
+      lastTs = ts;
+      const result = landmarker.detectForVideo(source, ts);
+      const landmarks = result.landmarks[0];
+      const worldLandmarks = result.worldLandmarks[0] ?? [];
+      if (!landmarks) return null;
+      return mirror
+        ? {
+            landmarks: mirrorLandmarks(landmarks, (x) => 1 - x),
+            worldLandmarks: mirrorLandmarks(worldLandmarks, (x) => -x),
+            timestamp: ts,
+          }
+        : { landmarks, worldLandmarks, timestamp: ts };
+    },
+    close: () => {
+      try { landmarker.close(); } catch { }
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import type { Landmark, PoseSignals } from "../signals";
+import {
+  unpackLandmarks,
+  type PoseWorkerOptions,
+  type PoseWorkerRequest,
+  type PoseWorkerResponse,
+} from "./workerProtocol";
+
+export type PoseWorkerResult = {
+  timestamp: number;
+  landmarks: Landmark[];
+  worldLandmarks: Landmark[];
+  signals: { left: PoseSignals; right: PoseSignals };
+};
+
+export type PoseWorkerClient = {
+  /** Sends a frame unless the worker is still busy with the previous one; returns whether it was sent. */
+  submit: (source: ImageBitmapSource, timestamp: number) => boolean;
+  close: () => void;
+};
+
+/**
+ * Runs a pose service inside a dedicated worker. Frames are copied into ImageBitmaps and
+ * transferred; at most one is in flight, so a slow model drops frames instead of queueing them.
+ * `onDropped` is called for a submitted frame that could not be copied and so gets no result.
+ */
+export function createPoseWorkerClient(
+  options: PoseWorkerOptions,
+  onResult: (result: PoseWorkerResult | null) => void,
+  onDropped: () => void = () => {}
+): Promise<PoseWorkerClient> {
+  const worker = new Worker(new URL("./pose.worker.ts", import.meta.url));
+  const send = (msg: PoseWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  let busy = false;
+  let closed = false;
+
+  const client: PoseWorkerClient = {
+    submit: (source, timestamp) => {
+      if (busy || closed) return false;
+      busy = true;
+      createImageBitmap(source)
+        .then((bitmap) => {
+          if (closed) {
+            bitmap.close();
+            return;
+          }
+          send({ type: "frame", bitmap, timestamp }, [bitmap]);
+        })
+        .catch(() => {
+          busy = false;
+          onDropped();
+        });
+      return true;
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      worker.terminate();
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (ev: MessageEvent<PoseWorkerResponse>) => {
+      const msg = ev.data;
+      switch (msg.type) {
+        case "ready":
+          resolve(client);
+          break;
+        case "error":
+          client.close();
+          reject(new Error(msg.message));
+          break;
+        case "result":
+          busy = false;
+          if (closed) return;
+          onResult(
+            msg.landmarks && msg.signals
+              ? {
+                  timestamp: msg.timestamp,
+                  landmarks: unpackLandmarks(msg.landmarks),
+                  worldLandmarks: msg.worldLandmarks ? unpackLandmarks(msg.worldLandmarks) : [],
+                  signals: msg.signals,
+                }
+              : null
+          );
+          break;
+      }
+    };
+    worker.onerror = (ev) => {
+      client.close();
+      reject(new Error(ev.message || "pose worker failed to start"));
+    };
+    send({ type: "init", options });
+  });
+}
@@ -0,0 +1,131 @@
+import { initialAsymmetry, stepAsymmetry, type AsymmetryReading } from "../asymmetry";
+import type { ExerciseDefinition } from "../exercises";
+import { buildHoldRule, initialHoldRuntime, stepHold, type HoldRuntime } from "../holdTracker";
+import { buildRepMachine, initialRepRuntime, stepRepMachine } from "../repEngine";
+import type { CameraId, CameraPipeline } from "./cameraPipeline";
+import { fuseFrames, type FusedFrame } from "./fusion";
+import { computeReadout, emptyReadout, type JointKey, type JointReadout } from "./jointReadout";
+import type { PoseWorkerResult } from "./poseWorkerClient";
+
+export const NO_PHASE = "—";
+
+export type SessionAnalysis = {
+  frame: FusedFrame | null;
+  views: Record<CameraId, PoseWorkerResult | null>;
+  /** Per camera, fused angles placed on that camera's landmarks. */
+  readouts: Record<CameraId, Record<JointKey, JointReadout>>;
+  /** Form check of the fused angles for both arms, independent of which view is shown. */
+  form: Record<JointKey, JointReadout>;
+  /** Camera whose result produced this update. */
+  updated: CameraId | null;
+  phase: string;
+  reps: number;
+  hold: HoldRuntime;
+  /** Left/right comparison of the rep joint, from the fused angles. */
+  asymmetry: AsymmetryReading;
+};
+
+export type SessionTracker = {
+  latest: () => SessionAnalysis;
+  subscribe: (fn: (analysis: SessionAnalysis) => void) => () => void;
+  /**
+   * Swaps in a re-tuned exercise, e.g. after calibration. Phase tracking restarts under the new
+   * rules; the reps and hold progress counted so far are kept.
+   */
+  setExercise: (exercise: ExerciseDefinition | undefined) => void;
+  reset: () => void;
+  close: () => void;
+};
+
+const initialAnalysis = (): SessionAnalysis => ({
+  frame: null,
+  views: { front: null, side: null },
+  readouts: { front: emptyReadout(), side: emptyReadout() },
+  form: emptyReadout(),
+  updated: null,
+  phase: NO_PHASE,
+  reps: 0,
+  hold: initialHoldRuntime(),
+  asymmetry: initialAsymmetry().reading,
+});
+
+/** Fuses the camera pipelines frame by frame and runs phase and rep (or hold) tracking on the result. */
+export function createSessionTracker(
+  cameras: Record<CameraId, CameraPipeline>,
+  initialExercise: ExerciseDefinition | undefined
+): SessionTracker {
+  let exercise = initialExercise;
+  let repMachine = buildRepMachine(exercise);
+  let holdRule = buildHoldRule(exercise);
+  let thresholds = exercise?.thresholds ?? {};
+  const listeners = new Set<(analysis: SessionAnalysis) => void>();
+
+  let rep = initialRepRuntime(repMachine);
+  let asymmetry = initialAsymmetry();
+  let analysis = initialAnalysis();
+  let lastTs = 0;
+
+  const onResult = (camera: CameraId, result: PoseWorkerResult | null) => {
+    const views = { ...analysis.views, [camera]: result };
+    const frame = fuseFrames(views);
+    const readout = (c: CameraId) => {
+      const view = views[c];
+      return view && frame
+        ? computeReadout(view.landmarks, frame.signals, thresholds, c === "side", analysis.readouts[c])
+        : emptyReadout();
+    };
+    const next: SessionAnalysis = {
+      ...analysis,
+      frame,
+      views,
+      readouts: { front: readout("front"), side: readout("side") },
+      form: frame ? computeReadout(frame.landmarks, frame.signals, thresholds, false, analysis.form) : emptyReadout(),
+      updated: camera,
+    };
+
+    if (frame && repMachine) {
+      const signals = frame.signals[frame.dominant];
+      // Results from the two workers can land slightly out of order.
+      lastTs = Math.max(lastTs, frame.timestamp);
+      const step = stepRepMachine(repMachine, rep, signals, lastTs);
+      rep = step.runtime;
+      next.phase = step.phase;
+      asymmetry = stepAsymmetry(repMachine, asymmetry, frame.signals, lastTs, step.repCompleted);
+      next.asymmetry = asymmetry.reading;
+      if (holdRule) next.hold = stepHold(holdRule, analysis.hold, signals, lastTs).runtime;
+      else if (step.repCompleted) next.reps = analysis.reps + 1;
+    }
+
+    analysis = next;
+    listeners.forEach((fn) => fn(analysis));
+  };
+
+  const unsubscribes = (Object.keys(cameras) as CameraId[]).map((c) =>
+    cameras[c].subscribe((result) => onResult(c, result))
+  );
+
+  return {
+    latest: () => analysis,
+    subscribe: (fn) => {
+      listeners.add(fn);
+      return () => {
+        listeners.delete(fn);
+      };
+    },
+    setExercise: (next) => {
+      if (next === exercise) return;
+      exercise = next;
+      repMachine = buildRepMachine(next);
+      holdRule = buildHoldRule(next);
+      thresholds = next?.thresholds ?? {};
+      rep = initialRepRuntime(repMachine);
+      asymmetry = initialAsymmetry();
+    },
+    reset: () => {
+      rep = initialRepRuntime(repMachine);
+      asymmetry = initialAsymmetry();
+      analysis = initialAnalysis();
+    },
+    close: () => unsubscribes.forEach((u) => u()),
+  };
+}
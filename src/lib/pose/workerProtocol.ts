@@ -0,0 +1,48 @@
+import type { PoseSignals } from "../signals";
+import type { LandmarkFilterConfig } from "./landmarkFilter";
+import type { PoseServiceOptions } from "./poseService";
+
+export type PoseWorkerOptions = Omit<PoseServiceOptions, "canvas"> & {
+  /** Temporal smoothing applied before signals are computed; `false` passes raw landmarks through. */
+  filter?: { image?: Partial<LandmarkFilterConfig>; world?: Partial<LandmarkFilterConfig> } | false;
+};
+
+export type PoseWorkerRequest =
+  | { type: "init"; options: PoseWorkerOptions }
+  | { type: "frame"; bitmap: ImageBitmap; timestamp: number };
+
+/**
+ * Landmarks travel as flat Float32Arrays of [x, y, z, visibility] per point so they can be
+ * transferred rather than cloned.
+ */
+export type PoseWorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; message: string }
+  | {
+      type: "result";
+      timestamp: number;
+      landmarks: Float32Array | null;
+      worldLandmarks: Float32Array | null;
+      signals: { left: PoseSignals; right: PoseSignals } | null;
+    };
+
+export const LANDMARK_STRIDE = 4;
+
+export const packLandmarks = (points: { x: number; y: number; z: number; visibility: number }[]) => {
+  const out = new Float32Array(points.length * LANDMARK_STRIDE);
+  points.forEach((p, i) => {
+    out[i * LANDMARK_STRIDE] = p.x;
+    out[i * LANDMARK_STRIDE + 1] = p.y;
+    out[i * LANDMARK_STRIDE + 2] = p.z;
+    out[i * LANDMARK_STRIDE + 3] = p.visibility;
+  });
+  return out;
+};
+
+export const unpackLandmarks = (packed: Float32Array) => {
+  const out = [];
+  for (let i = 0; i < packed.length; i += LANDMARK_STRIDE) {
+    out.push({ x: packed[i], y: packed[i + 1], z: packed[i + 2], visibility: packed[i + 3] });
+  }
+  return out;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { ExerciseDefinition } from "./exercises";
+import { buildRepMachine, initialRepRuntime, stepRepMachine, type RepMachine } from "./repEngine";
+
+const STEP_MS = 20;
+
+/** A rising exercise: rest below 20°, working window 21–90°, counted on return below 20°. */
+const RAISE: ExerciseDefinition = {
+  id: "raise",
+  title: "Raise",
+  imageUrl: "",
+  muscles: { primary: [], secondary: [] },
+  thresholds: {},
+  phases: [
+    { name: "Rest", cues: [], selectable: true, angle: { min: 0, max: 20 }, motion: "rest" },
+    { name: "Up", cues: [], selectable: true, angle: { min: 21, max: 90 }, motion: "out" },
+    { name: "Down", cues: [], selectable: true, angle: { min: 21, max: 90 }, motion: "back" },
+  ],
+  rep: { joint: "shoulder", hysteresis: 5, dwellMs: 100 },
+};
+
+/** Holds each angle for its duration, sampled every STEP_MS, and reports the last phase and the reps counted. */
+const run = (machine: RepMachine, segments: [angle: number, ms: number][]) => {
+  let runtime = initialRepRuntime(machine);
+  let phase = "";
+  let reps = 0;
+  let now = 0;
+  for (const [angle, ms] of segments) {
+    for (let end = now + ms; now < end; now += STEP_MS) {
+      const step = stepRepMachine(machine, runtime, { shoulder: angle }, now);
+      runtime = step.runtime;
+      phase = step.phase;
+      if (step.repCompleted) reps++;
+    }
+  }
+  return { phase, reps, state: runtime.state };
+};
+
+const FULL_REP: [number, number][] = [
+  [10, 200],
+  [50, 200],
+  [95, 300],
+  [60, 300],
+  [10, 300],
+];
+
+describe("rep machine", () => {
+  const machine = buildRepMachine(RAISE)!;
+
+  it("counts a rep that reaches the far edge, turns and returns to rest", () => {
+    expect(run(machine, FULL_REP)).toEqual({ phase: "Rest", reps: 1, state: "rest" });
+    expect(run(machine, [...FULL_REP, ...FULL_REP]).reps).toBe(2);
+  });
+
+  it("passes through the working and returning phases", () => {
+    expect(run(machine, FULL_REP.slice(0, 3)).phase).toBe("Up");
+    expect(run(machine, FULL_REP.slice(0, 4)).phase).toBe("Down");
+  });
+
+  it("drops a partial rep that returns to rest before the far edge", () => {
+    const partial: [number, number][] = [[10, 200], [50, 300], [10, 300]];
+    expect(run(machine, partial)).toEqual({ phase: "Rest", reps: 0, state: "rest" });
+    expect(run(machine, [...partial, ...FULL_REP]).reps).toBe(1);
+  });
+
+  it("does not leave rest while the angle stays inside the hysteresis band", () => {
+    const hover: [number, number][] = Array.from({ length: 10 }, (_, i) => [i % 2 ? 24 : 19, 200]);
+    expect(run(machine, hover)).toEqual({ phase: "Rest", reps: 0, state: "rest" });
+  });
+
+  it("ignores a spike shorter than the dwell time", () => {
+    expect(run(machine, [[10, 200], [60, 60], [10, 200]]).state).toBe("rest");
+    expect(run(machine, [[10, 200], [50, 200], [95, 60], [50, 200]]).state).toBe("out");
+  });
+
+  it("changes state once the condition has held for the dwell time", () => {
+    expect(run(machine, [[10, 200], [60, 100]]).state).toBe("rest");
+    expect(run(machine, [[10, 200], [60, 120]]).state).toBe("out");
+  });
+});
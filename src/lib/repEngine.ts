@@ -0,0 +1,152 @@
+import type { ExerciseDefinition, Joint } from "./exercises";
+import { meetsCondition, type PoseSignals, type SignalCondition } from "./signals";
+
+/**
+ * A transition fires when the tracked angle rises `above` or falls `below` a value, or when it
+ * `retreat`s that many degrees back from the furthest angle seen in the current state. Any
+ * `requires` conditions on the other pose signals must hold at the same moment.
+ */
+export type RepTransition = {
+  to: string;
+  above?: number;
+  below?: number;
+  retreat?: number;
+  requires?: SignalCondition[];
+  countsRep?: boolean;
+};
+
+export type RepStateDef = {
+  id: string;
+  phase: string;
+  transitions: RepTransition[];
+};
+
+/** Long enough to outlast a single bad frame at camera rate, short enough not to lag a fast rep. */
+export const DEFAULT_DWELL_MS = 120;
+
+export type RepMachine = {
+  joint: Joint;
+  /** Whether the working phase moves the angle up (lateral raise) or down (incline fly). */
+  direction: "rising" | "falling";
+  initial: string;
+  /** Minimum time a transition's condition must hold continuously before it fires. */
+  dwellMs: number;
+  states: Record<string, RepStateDef>;
+};
+
+export type RepRuntime = {
+  state: string;
+  /** Furthest angle reached since entering `state`, in the direction of travel. */
+  extreme: number | null;
+  /** Transition whose condition currently holds, and since when. */
+  pending: { to: string; since: number } | null;
+};
+
+export type RepStep = {
+  runtime: RepRuntime;
+  phase: string;
+  repCompleted: boolean;
+};
+
+/**
+ * Builds the machine from the exercise's phase windows. The rest window sits at one end of the
+ * travel and the rep is counted on return to it. Dynamic exercises turn around at the far edge
+ * of the working window; isometric ones dwell in a hold window instead. A rep that falls back to
+ * rest before reaching the far edge is dropped without counting:
+ *
+ *   rest --(leaves rest window)--> out --(near far edge)--> turn --(retreats)--> back --(rest)--> rest
+ *                                  out --(rest)--> rest
+ *   rest --(enters hold window)--> hold --(leaves hold window)--> back --(rest)--> rest
+ */
+export const buildRepMachine = (ex: ExerciseDefinition | undefined): RepMachine | null => {
+  const rule = ex?.rep;
+  if (!ex || !rule) return null;
+
+  const rest = ex.phases.find((p) => p.motion === "rest");
+  const out = ex.phases.find((p) => p.motion === "out");
+  const hold = ex.phases.find((p) => p.motion === "hold");
+  const back = ex.phases.find((p) => p.motion === "back");
+  const work = hold ?? out;
+  if (!rest?.angle || !work?.angle || !back) return null;
+
+  const h = rule.hysteresis;
+  const rising = work.angle.min >= rest.angle.max;
+  const restEdge = rising ? rest.angle.max : rest.angle.min;
+  const farEdge = rising ? work.angle.max : work.angle.min;
+  const nearEdge = rising ? work.angle.min : work.angle.max;
+  const past = (edge: number, by: number, to: string, extra: Partial<RepTransition> = {}): RepTransition =>
+    rising ? { to, above: edge + by, ...extra } : { to, below: edge - by, ...extra };
+  const before = (edge: number, by: number, to: string, extra: Partial<RepTransition> = {}): RepTransition =>
+    rising ? { to, below: edge - by, ...extra } : { to, above: edge + by, ...extra };
+
+  const backToRest = before(restEdge, 0, "rest", { countsRep: true, requires: rule.confirm?.rest });
+
+  const states: RepStateDef[] = hold
+    ? [
+        { id: "rest", phase: rest.name, transitions: [past(nearEdge, h, "hold")] },
+        { id: "hold", phase: hold.name, transitions: [before(nearEdge, h, "back")] },
+        { id: "back", phase: back.name, transitions: [backToRest] },
+      ]
+    : [
+        { id: "rest", phase: rest.name, transitions: [past(restEdge, h, "out")] },
+        {
+          id: "out",
+          phase: work.name,
+          transitions: [past(farEdge, -h, "turn", { requires: rule.confirm?.turn }), before(restEdge, 0, "rest")],
+        },
+        { id: "turn", phase: work.name, transitions: [{ to: "back", retreat: h }] },
+        { id: "back", phase: back.name, transitions: [backToRest] },
+      ];
+
+  return {
+    joint: rule.joint,
+    direction: rising ? "rising" : "falling",
+    initial: "rest",
+    dwellMs: rule.dwellMs ?? DEFAULT_DWELL_MS,
+    states: Object.fromEntries(states.map((s) => [s.id, s])),
+  };
+};
+
+export const initialRepRuntime = (machine: RepMachine | null): RepRuntime => ({
+  state: machine?.initial ?? "",
+  extreme: null,
+  pending: null,
+});
+
+const fires = (t: RepTransition, angle: number, extreme: number | null, signals: PoseSignals) => {
+  if (t.above !== undefined && angle <= t.above) return false;
+  if (t.below !== undefined && angle >= t.below) return false;
+  if (t.retreat !== undefined && (extreme === null || Math.abs(extreme - angle) < t.retreat)) return false;
+  if (t.requires && !t.requires.every((c) => meetsCondition(signals, c))) return false;
+  return true;
+};
+
+/** `now` is in milliseconds and drives the dwell time. */
+export const stepRepMachine = (machine: RepMachine, runtime: RepRuntime, signals: PoseSignals, now: number): RepStep => {
+  const current = machine.states[runtime.state] ?? machine.states[machine.initial];
+  const angle = signals[machine.joint];
+  if (angle === undefined) return { runtime, phase: current.phase, repCompleted: false };
+
+  const extreme =
+    runtime.extreme === null
+      ? angle
+      : machine.direction === "rising"
+      ? Math.max(runtime.extreme, angle)
+      : Math.min(runtime.extreme, angle);
+
+  for (const t of current.transitions) {
+    if (!fires(t, angle, extreme, signals)) continue;
+    const since = runtime.pending?.to === t.to ? runtime.pending.since : now;
+    if (now - since < machine.dwellMs) {
+      return { runtime: { state: current.id, extreme, pending: { to: t.to, since } }, phase: current.phase, repCompleted: false };
+    }
+    const next = machine.states[t.to];
+    return {
+      runtime: { state: next.id, extreme: null, pending: null },
+      phase: next.phase,
+      repCompleted: !!t.countsRep,
+    };
+  }
+
+  return { runtime: { state: current.id, extreme, pending: null }, phase: current.phase, repCompleted: false };
+};
@@ -0,0 +1,138 @@
+import { angle2d, angle3d, bodyFrame, shoulderPlaneAngles } from "./angles";
+
+export type Landmark = { x: number; y: number; z: number; visibility: number };
+
+export type Side = "left" | "right";
+
+/** Indices into the 33-point MediaPipe pose skeleton. */
+export const LANDMARK = {
+  NOSE: 0,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_PINKY: 17,
+  RIGHT_PINKY: 18,
+  LEFT_INDEX: 19,
+  RIGHT_INDEX: 20,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+} as const;
+
+/**
+ * shoulder, elbow: joint angles in degrees.
+ * abduction, flexion: upper-arm elevation in the frontal and sagittal body planes, in degrees.
+ * wristHeight: how far the wrist sits above the shoulder, in upper-arm lengths (negative below).
+ * forearmRotation: 0° with the palm facing the body, 180° with it facing away.
+ */
+export type Signal = "shoulder" | "elbow" | "abduction" | "flexion" | "wristHeight" | "forearmRotation";
+
+export type PoseSignals = Partial<Record<Signal, number>>;
+
+export type SignalCondition = { signal: Signal; above?: number; below?: number };
+
+/** 2D image-plane angle, kept for callers without world landmarks. */
+export const calculateAngle = (A: Landmark | undefined, B: Landmark | undefined, C: Landmark | undefined) =>
+  angle2d(A, B, C);
+
+/** World landmarks below this visibility fall back to the 2D estimate. */
+const WORLD_VISIBILITY_MIN = 0.5;
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+const dist3 = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const pick = (side: Side) =>
+  side === "left"
+    ? {
+        hip: LANDMARK.LEFT_HIP,
+        shoulder: LANDMARK.LEFT_SHOULDER,
+        elbow: LANDMARK.LEFT_ELBOW,
+        wrist: LANDMARK.LEFT_WRIST,
+        pinky: LANDMARK.LEFT_PINKY,
+        index: LANDMARK.LEFT_INDEX,
+      }
+    : {
+        hip: LANDMARK.RIGHT_HIP,
+        shoulder: LANDMARK.RIGHT_SHOULDER,
+        elbow: LANDMARK.RIGHT_ELBOW,
+        wrist: LANDMARK.RIGHT_WRIST,
+        pinky: LANDMARK.RIGHT_PINKY,
+        index: LANDMARK.RIGHT_INDEX,
+      };
+
+/**
+ * Joint angles come from the world landmarks (metres, hip-centred) when they are confident, so
+ * they do not shift with camera distance or the lifter's rotation; otherwise from the image plane.
+ */
+export const computeSignals = (landmarks: Landmark[], side: Side, world: Landmark[] = []): PoseSignals => {
+  const idx = pick(side);
+  const hip = landmarks[idx.hip];
+  const shoulder = landmarks[idx.shoulder];
+  const elbow = landmarks[idx.elbow];
+  const wrist = landmarks[idx.wrist];
+  const pinky = landmarks[idx.pinky];
+  const index = landmarks[idx.index];
+
+  const w = (i: number) => {
+    const p = world[i];
+    return p && p.visibility >= WORLD_VISIBILITY_MIN ? p : undefined;
+  };
+  const wHip = w(idx.hip);
+  const wShoulder = w(idx.shoulder);
+  const wElbow = w(idx.elbow);
+  const wWrist = w(idx.wrist);
+
+  const signals: PoseSignals = {};
+  if (wHip && wShoulder && wElbow) signals.shoulder = angle3d(wHip, wShoulder, wElbow);
+  if (signals.shoulder === undefined && hip && shoulder && elbow) signals.shoulder = calculateAngle(hip, shoulder, elbow);
+  if (wShoulder && wElbow && wWrist) signals.elbow = angle3d(wShoulder, wElbow, wWrist);
+  if (signals.elbow === undefined && shoulder && elbow && wrist) signals.elbow = calculateAngle(shoulder, elbow, wrist);
+
+  const ls = w(LANDMARK.LEFT_SHOULDER);
+  const rs = w(LANDMARK.RIGHT_SHOULDER);
+  const lh = w(LANDMARK.LEFT_HIP);
+  const rh = w(LANDMARK.RIGHT_HIP);
+  const nose = world[LANDMARK.NOSE];
+  const frame = ls && rs && lh && rh && nose ? bodyFrame(ls, rs, lh, rh, nose) : null;
+  if (frame && wShoulder && wElbow) {
+    const planes = shoulderPlaneAngles(frame, wShoulder, wElbow, side === "left" ? -1 : 1);
+    signals.abduction = planes.abduction;
+    signals.flexion = planes.flexion;
+  }
+
+  // Image and world y both grow downwards, so a raised wrist has the smaller y.
+  if (wShoulder && wElbow && wWrist && dist3(wShoulder, wElbow) > 0) {
+    signals.wristHeight = (wShoulder.y - wWrist.y) / dist3(wShoulder, wElbow);
+  } else if (shoulder && elbow && wrist) {
+    const upperArm = dist(shoulder, elbow);
+    if (upperArm > 0) signals.wristHeight = (shoulder.y - wrist.y) / upperArm;
+  }
+
+  if (pinky && index) {
+    const span = dist(pinky, index);
+    if (span > 0) {
+      // With the palm towards the body the index finger sits on the thumb side, away from the midline.
+      const dx = (index.x - pinky.x) * (side === "left" ? 1 : -1);
+      const cos = Math.max(-1, Math.min(1, dx / span));
+      signals.forearmRotation = (Math.acos(cos) * 180) / Math.PI;
+    }
+  }
+
+  return signals;
+};
+
+export const meetsCondition = (signals: PoseSignals, c: SignalCondition) => {
+  const v = signals[c.signal];
+  if (v === undefined) return false;
+  if (c.above !== undefined && v <= c.above) return false;
+  if (c.below !== undefined && v >= c.below) return false;
+  return true;
+};
+
+/** Side whose shoulder the camera sees best. */
+export const dominantSide = (landmarks: Landmark[]): Side =>
+  (landmarks[LANDMARK.LEFT_SHOULDER]?.visibility ?? 0) > (landmarks[LANDMARK.RIGHT_SHOULDER]?.visibility ?? 0)
+    ? "left"
+    : "right";